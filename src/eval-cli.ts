@@ -0,0 +1,103 @@
+/**
+ * `hydramcp eval` — run an eval suite from the command line.
+ *
+ *   hydramcp eval suite.jsonl --models smart,fast,@frontier [--concurrency 4]
+ *     [--judge model] [--compare-to previous|<run id>|none]
+ *     [--temperature 0] [--max-tokens 1024] [--system "..."]
+ *
+ * Prints the same markdown report as the run_eval tool to stdout (logs
+ * go to stderr). Exits 1 when the run has regressions against its
+ * baseline, so it can gate a CI job or a cron check, and 2 when it
+ * couldn't run at all, so a broken setup never reads as a regression.
+ *
+ * Queries are metered like the tool's: each one goes to the usage log
+ * under run_eval, and the cost is printed under the report. The budget
+ * is per session and every CLI run starts a new one, so budget.hard_usd
+ * doesn't cap a CLI run.
+ */
+
+import { parseArgs } from "node:util";
+import { Provider } from "./providers/provider.js";
+import { executeEval, formatEvalReport, runEvalSchema } from "./tools/run-eval.js";
+import { EvalRunStore } from "./utils/eval-runs.js";
+import { CostLedger } from "./utils/cost-ledger.js";
+import { UsageStore } from "./utils/usage-store.js";
+
+const USAGE = `Usage: hydramcp eval <suite.jsonl> --models <a,b,...> [options]
+
+Options:
+  --models <list>       Comma-separated models, aliases or @groups (required)
+  --concurrency <n>     Queries in flight at once (default 4)
+  --judge <model>       Model for judge graders that don't name one
+  --compare-to <id>     Baseline run: previous (default), a run ID, or none
+  --temperature <t>     Sampling temperature (default 0)
+  --max-tokens <n>      Max tokens per answer (default 1024)
+  --system <prompt>     System prompt for items that don't set one`;
+
+/** Returns the process exit code: 0 ok, 1 regressions, 2 bad arguments or a failed run */
+export async function runEvalCli(
+  args: string[],
+  provider: Provider,
+  store: EvalRunStore,
+  usage?: UsageStore
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        models: { type: "string" },
+        concurrency: { type: "string" },
+        judge: { type: "string" },
+        "compare-to": { type: "string" },
+        temperature: { type: "string" },
+        "max-tokens": { type: "string" },
+        system: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length !== 1 || !values.models) {
+    process.stderr.write(`${USAGE}\n`);
+    return values.help ? 0 : 2;
+  }
+
+  const input = runEvalSchema.safeParse({
+    suite: positionals[0],
+    models: values.models.split(",").map((m) => m.trim()).filter(Boolean),
+    concurrency: optionalNumber(values.concurrency),
+    judge_model: values.judge,
+    compare_to: values["compare-to"],
+    temperature: optionalNumber(values.temperature),
+    max_tokens: optionalNumber(values["max-tokens"]),
+    system_prompt: values.system,
+  });
+  if (!input.success) {
+    const issues = input.error.issues.map((i) => `  --${String(i.path[0] ?? "").replace(/_/g, "-")}: ${i.message}`);
+    process.stderr.write(`Invalid arguments:\n${issues.join("\n")}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const ledger = new CostLedger({ usage });
+  let outcome;
+  try {
+    const call = ledger.startCall("run_eval");
+    outcome = await executeEval(call.provider(provider), store, input.data);
+    process.stdout.write(`${formatEvalReport(outcome.run, outcome.path, outcome.diff)}${ledger.formatFooter(call)}\n`);
+  } catch (err) {
+    process.stderr.write(`Eval failed: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 2;
+  }
+  return outcome.diff && outcome.diff.regressions.length > 0 ? 1 : 0;
+}
+
+/** NaN on garbage, so zod reports it instead of the flag being silently dropped */
+function optionalNumber(raw: string | undefined): number | undefined {
+  return raw === undefined ? undefined : Number(raw);
+}
@@ -0,0 +1,272 @@
+/**
+ * HTTP mode — serves MCP over Streamable HTTP so several agents can share
+ * one HydraMCP process (and with it one circuit breaker, cache and usage log).
+ *
+ * Every client that sends an initialize request gets its own MCP session:
+ * a fresh McpServer (own chat sessions and cost ledger) bound to its own
+ * transport, keyed by the Mcp-Session-Id header the SDK hands out.
+ *
+ *   POST   /mcp  → JSON-RPC requests (initialize creates a session)
+ *   GET    /mcp  → server-to-client SSE stream for an existing session
+ *   DELETE /mcp  → end a session
+ *
+ * With an auth token configured, every request needs
+ * "Authorization: Bearer <token>". Without one, HydraMCP refuses to listen
+ * on anything but loopback.
+ *
+ * Loopback alone doesn't keep browsers out: a web page can rebind its own
+ * DNS name to 127.0.0.1 and post to us as a "same-origin" request. So the
+ * Host header must name this server (localhost / 127.0.0.1 / [::1] on the
+ * bound port, or http.allowed_hosts), and a browser's Origin header must
+ * match it. MCP clients outside a browser send no Origin and pass.
+ */
+
+import crypto from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./utils/logger.js";
+
+const MCP_PATH = "/mcp";
+
+/** Request bodies larger than this are rejected before parsing */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionIdleMs: number;
+  /** "host:port" values clients may send in Host; defaults to the loopback names when bound to loopback */
+  allowedHosts?: string[];
+}
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  /** Requests still being answered, including a GET stream held open */
+  open: number;
+}
+
+/**
+ * Start listening. newServer is called once per client session.
+ * Resolves once the port is bound.
+ */
+export async function startHttpServer(
+  newServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<Server> {
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(
+      `Refusing to serve HTTP on ${options.host} without an auth token. ` +
+        "Set http.auth_token (or HYDRA_HTTP_TOKEN), or bind to 127.0.0.1."
+    );
+  }
+
+  const sessions: Map<string, HttpSession> = new Map();
+
+  async function closeSession(id: string, reason: string): Promise<void> {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    logger.info(`http: closing session ${id.slice(0, 8)} (${reason}), ${sessions.size} active`);
+    try {
+      await session.server.close();
+    } catch {
+      // Transport already gone
+    }
+  }
+
+  /** Resolved on first use, so port 0 (pick any) gets the real port */
+  let allowedHosts: string[] | undefined;
+  function hostsAllowed(): string[] | undefined {
+    if (options.allowedHosts) return options.allowedHosts.map((h) => h.toLowerCase());
+    if (!isLoopback(options.host)) return undefined;
+    const port = (httpServer.address() as AddressInfo).port;
+    return (allowedHosts ??= [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`]);
+  }
+
+  /** Why the Host / Origin headers are refused, or undefined when they're fine */
+  function rebindingProblem(req: IncomingMessage): string | undefined {
+    const host = headerValue(req, "host")?.toLowerCase();
+    const hosts = hostsAllowed();
+    if (hosts && (!host || !hosts.includes(host))) {
+      return `Host "${host ?? ""}" is not allowed. Connect via ${hosts[0]} or add it to http.allowed_hosts.`;
+    }
+
+    const origin = headerValue(req, "origin");
+    if (origin === undefined) return undefined;
+    let originHost: string;
+    try {
+      originHost = new URL(origin).host.toLowerCase();
+    } catch {
+      return `Origin "${origin}" is not allowed`;
+    }
+    const allowed = hosts ?? (host ? [host] : []);
+    return allowed.includes(originHost) ? undefined : `Origin "${origin}" is not allowed`;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const rebinding = rebindingProblem(req);
+    if (rebinding) {
+      logger.warn(`http: refused ${req.method} ${req.url}: ${rebinding}`);
+      sendError(res, 403, rebinding);
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      sendError(res, 404, `Not found. The MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    if (options.authToken && !hasValidToken(req, options.authToken)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, 401, "Missing or invalid bearer token");
+      return;
+    }
+
+    const sessionId = headerValue(req, "mcp-session-id");
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      existing.lastSeen = Date.now();
+      existing.open++;
+      res.once("close", () => {
+        existing.open--;
+        existing.lastSeen = Date.now();
+      });
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendError(res, 404, `Unknown or expired session "${sessionId}". Re-initialize to start a new one.`);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, "Missing Mcp-Session-Id header");
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, "Missing Mcp-Session-Id header; only an initialize request may start a session");
+      return;
+    }
+
+    // New client: its own McpServer and transport, registered once the SDK assigns an id
+    const server = newServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastSeen: Date.now(), open: 0 });
+        logger.info(`http: session ${id.slice(0, 8)} started, ${sessions.size} active`);
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) {
+        logger.info(`http: session ${id.slice(0, 8)} ended, ${sessions.size} active`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`http: ${req.method} ${req.url} failed: ${message}`);
+      if (!res.headersSent) {
+        sendError(res, err instanceof BodyError ? err.status : 500, message);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Clients that vanish without a DELETE would otherwise keep their session forever.
+  // A session with a stream or call still open isn't idle, however long it's been.
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.open === 0 && session.lastSeen < cutoff) void closeSession(id, "idle");
+    }
+  }, Math.min(options.sessionIdleMs, 60_000));
+  sweep.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    for (const id of [...sessions.keys()]) void closeSession(id, "server shutdown");
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+class BodyError extends Error {
+  name = "BodyError" as const;
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new BodyError(400, "Request body is not valid JSON");
+  }
+}
+
+function hasValidToken(req: IncomingMessage, token: string): boolean {
+  const header = headerValue(req, "authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  // Hash both sides so the comparison is constant-time regardless of length
+  const given = crypto.createHash("sha256").update(match[1].trim()).digest();
+  const expected = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/** JSON-RPC shaped error, which is what MCP clients expect from this endpoint */
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
@@ -4,37 +4,94 @@
  * HydraMCP — Entry point.
  *
  * Wires up all available providers and starts the MCP server.
- * MCP servers communicate over stdio (stdin/stdout), so once we call
- * connect(), the server takes over and listens for JSON-RPC messages
- * from Claude Code.
+ * By default MCP servers communicate over stdio (stdin/stdout), so once we
+ * call connect(), the server takes over and listens for JSON-RPC messages
+ * from Claude Code. With http.enabled (or HYDRA_TRANSPORT=http) it serves
+ * Streamable HTTP instead, so several clients can share one process.
  *
  * Provider routing:
  *   "ollama/llama3"      → local Ollama instance
  *   "cliproxy/gpt-4o"    → CLIProxyAPI (subscription-based)
+ *   "anthropic/claude-…" → Anthropic Messages API (when an API key is configured)
+ *   "gemini/gemini-2.5-pro" → Gemini generateContent API (when an API key is configured)
+ *   "vllm/qwen3-32b"     → any OpenAI-compatible endpoint from hydra.config.json
  *   "gpt-4o"             → auto-detect (tries each provider)
+ *
+ * `hydramcp eval <suite.jsonl> --models ...` uses the same providers to
+ * run an eval suite, prints the report and exits instead of serving.
  */
 
+import { join } from "node:path";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CLIProxyAPIProvider } from "./providers/cliproxyapi.js";
 import { OllamaProvider } from "./providers/ollama.js";
+import { AnthropicProvider } from "./providers/anthropic.js";
+import { GeminiProvider } from "./providers/gemini.js";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible.js";
 import { MultiProvider } from "./providers/multi-provider.js";
+import { CachedProvider } from "./providers/cached-provider.js";
+import { Provider } from "./providers/provider.js";
 import { createServer } from "./server.js";
+import { startHttpServer } from "./http-server.js";
 import { logger } from "./utils/logger.js";
 import { loadEnv } from "./utils/env.js";
+import { loadEndpoints } from "./utils/endpoints.js";
+import { loadConfig, watchConfig } from "./utils/config.js";
+import { ResponseCache } from "./utils/response-cache.js";
+import { UsageStore } from "./utils/usage-store.js";
+import { ModelWeights } from "./utils/model-weights.js";
+import { EvalRunStore } from "./utils/eval-runs.js";
+import { runEvalCli } from "./eval-cli.js";
 
 async function main() {
   // Load .env before anything reads process.env
   loadEnv();
 
-  const multi = new MultiProvider();
+  // Validate hydra.config.json (if any) up front — a bad file is fatal
+  const config = loadConfig();
+
+  const multi = new MultiProvider({
+    circuitBreaker: {
+      windowSize: config.circuit_breaker.window_size,
+      failureThreshold: config.circuit_breaker.failure_threshold,
+      cooldownMs: config.circuit_breaker.cooldown_ms,
+      // Remember broken models across restarts
+      statePath: config.circuit_breaker.persist
+        ? join(config.data_dir, "circuit-breaker.json")
+        : undefined,
+      stateTtlMs: config.circuit_breaker.state_ttl_ms,
+    },
+  });
+  const { providers } = config;
 
   // Register CLIProxyAPI backend (subscription-based cloud models)
-  const cliproxy = new CLIProxyAPIProvider();
-  multi.register("cliproxy", cliproxy);
+  if (providers.cliproxy.enabled) {
+    const cliproxy = new CLIProxyAPIProvider(providers.cliproxy.baseUrl, providers.cliproxy.apiKey);
+    multi.register("cliproxy", cliproxy);
+  }
 
   // Register Ollama backend (local models)
-  const ollama = new OllamaProvider();
-  multi.register("ollama", ollama);
+  if (providers.ollama.enabled) {
+    const ollama = new OllamaProvider(providers.ollama.baseUrl);
+    multi.register("ollama", ollama);
+  }
+
+  // Register the native Anthropic and Gemini backends (enabled by default only when there's a key)
+  if (providers.anthropic.enabled) {
+    multi.register("anthropic", new AnthropicProvider(providers.anthropic.baseUrl, providers.anthropic.apiKey));
+  }
+  if (providers.gemini.enabled) {
+    multi.register("gemini", new GeminiProvider(providers.gemini.baseUrl, providers.gemini.apiKey));
+  }
+
+  // Register any extra OpenAI-compatible endpoints (vLLM, LM Studio, gateways)
+  for (const endpoint of loadEndpoints()) {
+    if (multi.has(endpoint.key)) {
+      logger.warn(`Skipping endpoint "${endpoint.key}": prefix is already registered`);
+      continue;
+    }
+    multi.register(endpoint.key, new OpenAICompatibleProvider(endpoint.options));
+  }
 
   // Health check all providers
   const healthy = await multi.healthCheck();
@@ -45,13 +102,86 @@ async function main() {
     );
   }
 
-  const server = createServer(multi);
+  // Every query is appended to usage.jsonl for the usage_report tool
+  const usage = config.usage_log.enabled
+    ? new UsageStore(join(config.data_dir, "usage.jsonl"))
+    : undefined;
+
+  if (process.argv[2] === "eval") {
+    const store = new EvalRunStore(join(config.data_dir, "evals"));
+    process.exitCode = await runEvalCli(process.argv.slice(3), multi, store, usage);
+    await multi.flush();
+    return;
+  }
+
+  // Fallbacks, blocklists, timeouts and retry policy reload without a restart
+  watchConfig();
+
+  // Deterministic queries are served from disk when the same request comes back
+  let provider: Provider = multi;
+  if (config.cache.enabled) {
+    const cache = new ResponseCache({
+      dir: join(config.data_dir, "cache"),
+      ttlMs: config.cache.ttl_ms,
+      maxBytes: config.cache.max_bytes,
+    });
+    provider = new CachedProvider(multi, cache);
+  }
+
+  // Consensus outcomes teach the "weighted" strategy which models to trust
+  const weights = new ModelWeights(join(config.data_dir, "consensus-weights.json"));
+
+  // State saves are debounced; write what's pending before the process goes away
+  const flushState = () => Promise.all([multi.flush(), weights.flush(), usage?.flush()]).then(() => undefined);
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => void shutdown(signal, flushState));
+  }
+
+  if (config.http.enabled) {
+    // One McpServer per client session; providers, cache and usage log are shared
+    // Remote clients only get to read images and eval suites from the configured directories
+    const files = {
+      images: { root: config.http.image_dir ?? null, setting: "http.image_dir" },
+      evals: { root: config.http.eval_dir ?? null, setting: "http.eval_dir" },
+    };
+    await startHttpServer(() => createServer(provider, { usage, multi, weights, files }), {
+      host: config.http.host,
+      port: config.http.port,
+      authToken: config.http.auth_token,
+      sessionIdleMs: config.http.session_idle_ms,
+      allowedHosts: config.http.allowed_hosts,
+    });
+    logger.info(
+      `HydraMCP is running on http://${config.http.host}:${config.http.port}/mcp` +
+        (config.http.auth_token ? " (bearer auth)" : "")
+    );
+    return;
+  }
+
+  const server = createServer(provider, { usage, multi, weights });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // The client closing stdin is how a stdio server is normally told to stop
+  process.stdin.once("end", () => void shutdown("stdin closed", flushState));
+
   logger.info("HydraMCP is running on stdio");
 }
 
+/** Flush, then exit. Repeated signals while flushing are ignored. */
+let shuttingDown = false;
+async function shutdown(reason: string, flush: () => Promise<void>): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info(`Shutting down (${reason})`);
+  try {
+    await flush();
+  } catch (err) {
+    logger.warn(`Failed to save state on exit: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  process.exit(0);
+}
+
 main().catch((err) => {
   logger.error(`Fatal: ${err instanceof Error ? err.message : String(err)}`);
   process.exit(1);
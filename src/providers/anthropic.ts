@@ -0,0 +1,327 @@
+/**
+ * Anthropic Backend — talks to the native Messages API (/v1/messages).
+ *
+ * Claude models are reachable through CLIProxyAPI too, but its OpenAI
+ * translation drops the parts that make Claude worth calling directly:
+ * - thinking blocks     → QueryResponse.reasoning_content
+ * - stop_reason         → finish_reason (plus the stop_sequence that fired)
+ * - prompt cache usage  → usage.cache_read_tokens / cache_write_tokens
+ *
+ * Default endpoint: https://api.anthropic.com
+ * Point ANTHROPIC_BASE_URL at a local mock server for testing.
+ */
+
+import { Provider, ModelInfo, QueryInput, QueryOptions, QueryResponse } from "./provider.js";
+import { getConfig } from "../utils/config.js";
+import { fetchWithTimeout } from "../utils/fetch-with-timeout.js";
+import { withRetry } from "../utils/retry.js";
+import { validateResponse } from "../utils/response-validator.js";
+import { logQuery, generateRequestId } from "../utils/logger.js";
+import { buildMessages } from "../utils/messages.js";
+import { readSSE } from "../utils/stream.js";
+
+const API_VERSION = "2023-06-01";
+
+/** The Messages API requires max_tokens; used when the caller doesn't set one */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Anthropic rejects thinking budgets below this */
+const MIN_THINKING_BUDGET = 1024;
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string }
+  | { type: "redacted_thinking" }
+  | { type: string };
+
+interface MessagesResult {
+  content: string;
+  thinking: string;
+  stop_reason?: string;
+  stop_sequence?: string;
+  usage: AnthropicUsage;
+}
+
+export class AnthropicProvider implements Provider {
+  name = "Anthropic";
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl?: string, apiKey?: string) {
+    this.baseUrl = (baseUrl ?? process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com")
+      .replace(/\/+$/, "");
+    this.apiKey = apiKey ?? process.env.ANTHROPIC_API_KEY ?? "";
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": API_VERSION,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const res = await fetchWithTimeout(`${this.baseUrl}/v1/models`, {
+        headers: this.headers(),
+      });
+      // Only the status matters; drop the body so nothing keeps reading it
+      await res.body?.cancel();
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const res = await fetchWithTimeout(`${this.baseUrl}/v1/models?limit=1000`, {
+      headers: this.headers(),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to list Anthropic models: ${res.status} ${res.statusText}`);
+    }
+
+    const data = (await res.json()) as {
+      data?: Array<{ id: string; display_name?: string }>;
+    };
+
+    return (data.data ?? []).map((m) => ({
+      id: m.id,
+      name: m.display_name ?? m.id,
+      provider: "anthropic",
+    }));
+  }
+
+  async query(
+    model: string,
+    prompt: QueryInput,
+    options?: QueryOptions
+  ): Promise<QueryResponse> {
+    const startTime = Date.now();
+    const requestId = generateRequestId();
+
+    // System turns go in the top-level "system" field, not in messages
+    const all = buildMessages(prompt, options?.system_prompt);
+    const system = all.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const messages = all
+      .filter((m) => m.role !== "system")
+      .map((m) => ({
+        role: m.role,
+        // Image blocks go before the text, as Anthropic recommends
+        content: m.images?.length
+          ? [
+              ...m.images.map((image) => ({
+                type: "image",
+                source: { type: "base64", media_type: image.mime_type, data: image.data },
+              })),
+              { type: "text", text: m.content },
+            ]
+          : m.content,
+      }));
+
+    const thinkingBudget = options?.thinking_budget !== undefined && options.thinking_budget > 0
+      ? Math.max(MIN_THINKING_BUDGET, options.thinking_budget)
+      : undefined;
+
+    // max_tokens covers thinking + answer, so keep room for the answer on top of the budget
+    const maxTokens = thinkingBudget !== undefined
+      ? thinkingBudget + (options?.max_tokens ?? DEFAULT_MAX_TOKENS)
+      : options?.max_tokens ?? DEFAULT_MAX_TOKENS;
+
+    const body: Record<string, unknown> = {
+      model,
+      max_tokens: maxTokens,
+      messages,
+      stream: options?.stream ?? false,
+    };
+
+    if (system) body.system = system;
+    if (options?.stop_sequences?.length) body.stop_sequences = options.stop_sequences;
+    // No JSON mode here: response_schema relies on the instructions queryStructured() adds to the prompt
+    if (thinkingBudget !== undefined) {
+      // Extended thinking only runs at the default temperature
+      body.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+    } else if (options?.temperature !== undefined) {
+      // Anthropic's range is 0-1; our tools accept 0-2
+      body.temperature = Math.min(options.temperature, 1);
+    }
+
+    const requestTimeout = thinkingBudget !== undefined
+      ? getConfig().timeouts.reasoning_ms
+      : undefined;
+
+    try {
+      const result = await withRetry(async () => {
+        const res = await fetchWithTimeout(`${this.baseUrl}/v1/messages`, {
+          method: "POST",
+          headers: this.headers(),
+          body: JSON.stringify(body),
+        }, requestTimeout);
+
+        if (!res.ok) {
+          const errorText = await res.text();
+          throw new Error(`Anthropic query failed (${res.status}): ${errorText}`);
+        }
+
+        const parsed = options?.stream
+          ? await this.readStream(res, model, options.onProgress)
+          : await this.readJson(res);
+
+        const latency_ms = Date.now() - startTime;
+
+        let content = parsed.content;
+        if (!content && parsed.thinking) {
+          content = `*[Model produced reasoning but no final answer — showing reasoning output]*\n\n${parsed.thinking}`;
+        }
+
+        const response: QueryResponse = {
+          model,
+          content,
+          reasoning_content: parsed.thinking || undefined,
+          usage: mapUsage(parsed.usage),
+          latency_ms,
+          finish_reason: mapStopReason(parsed.stop_reason),
+          stop_sequence: parsed.stop_sequence,
+        };
+
+        return validateResponse(response);
+      });
+
+      logQuery({ requestId, model, latency_ms: result.latency_ms, status: "ok", finish_reason: result.finish_reason });
+      return result;
+    } catch (err) {
+      logQuery({ requestId, model, latency_ms: Date.now() - startTime, status: "error" });
+      throw err;
+    }
+  }
+
+  private async readJson(res: Response): Promise<MessagesResult> {
+    const data = (await res.json()) as {
+      content?: AnthropicContentBlock[];
+      stop_reason?: string | null;
+      stop_sequence?: string | null;
+      usage?: AnthropicUsage;
+    };
+
+    let content = "";
+    let thinking = "";
+    for (const block of data.content ?? []) {
+      if (block.type === "text" && "text" in block) content += block.text;
+      if (block.type === "thinking" && "thinking" in block) thinking += block.thinking;
+    }
+
+    return {
+      content,
+      thinking,
+      stop_reason: data.stop_reason ?? undefined,
+      stop_sequence: data.stop_sequence ?? undefined,
+      usage: data.usage ?? {},
+    };
+  }
+
+  /**
+   * Accumulate a Messages SSE stream. message_start carries input usage,
+   * content_block_delta carries text/thinking, message_delta carries the
+   * stop reason and final output token count.
+   */
+  private async readStream(
+    res: Response,
+    model: string,
+    onProgress?: QueryOptions["onProgress"]
+  ): Promise<MessagesResult> {
+    const result: MessagesResult = { content: "", thinking: "", usage: {} };
+    let chunks = 0;
+
+    for await (const payload of readSSE(res)) {
+      const event = JSON.parse(payload) as {
+        type: string;
+        message?: { usage?: AnthropicUsage };
+        delta?: {
+          type?: string;
+          text?: string;
+          thinking?: string;
+          stop_reason?: string | null;
+          stop_sequence?: string | null;
+        };
+        usage?: AnthropicUsage;
+        error?: { type?: string; message?: string };
+      };
+
+      switch (event.type) {
+        case "message_start":
+          result.usage = { ...event.message?.usage };
+          break;
+
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            result.content += event.delta.text;
+          } else if (event.delta?.type === "thinking_delta" && event.delta.thinking) {
+            result.thinking += event.delta.thinking;
+          } else {
+            break;
+          }
+          chunks++;
+          onProgress?.({ model, content: result.content, completion_tokens: chunks });
+          break;
+
+        case "message_delta":
+          if (event.delta?.stop_reason) result.stop_reason = event.delta.stop_reason;
+          if (event.delta?.stop_sequence) result.stop_sequence = event.delta.stop_sequence;
+          result.usage = { ...result.usage, ...event.usage };
+          break;
+
+        case "error":
+          throw new Error(
+            `Anthropic stream error (${event.error?.type ?? "unknown"}): ${event.error?.message ?? ""}`
+          );
+      }
+    }
+
+    return result;
+  }
+}
+
+function mapStopReason(reason?: string): string | undefined {
+  switch (reason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    default:
+      return reason;
+  }
+}
+
+/**
+ * Anthropic reports uncached, cache-read and cache-write input separately.
+ * prompt_tokens is their sum so it means the same thing as on other backends.
+ */
+function mapUsage(usage: AnthropicUsage): QueryResponse["usage"] {
+  if (usage.input_tokens === undefined && usage.output_tokens === undefined) return undefined;
+
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+  const prompt_tokens = (usage.input_tokens ?? 0) + cacheRead + cacheWrite;
+  const completion_tokens = usage.output_tokens ?? 0;
+
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
+    ...(cacheRead > 0 ? { cache_read_tokens: cacheRead } : {}),
+    ...(cacheWrite > 0 ? { cache_write_tokens: cacheWrite } : {}),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * CachedProvider — wraps any Provider with the disk-backed response cache.
+ *
+ * Agents re-ask identical temperature-0 questions all the time, especially
+ * inside consensus and compare_models. Rather than teaching every tool
+ * about caching, we put a decorator around the provider: the tools keep
+ * calling query(), and identical deterministic requests come back from disk.
+ *
+ * The key covers the model, the full message list (system prompt included)
+ * and every option that changes the output. Transport-only options
+ * (stream, onProgress, cache) are left out, so a streamed and a
+ * non-streamed call share an entry.
+ *
+ * Responses served by a fallback model are never stored — next time the
+ * requested model may be healthy again.
+ */
+
+import { Provider, ModelInfo, QueryInput, QueryOptions, QueryResponse } from "./provider.js";
+import { ResponseCache } from "../utils/response-cache.js";
+import { buildMessages } from "../utils/messages.js";
+import { resolveAlias } from "../utils/model-aliases.js";
+import { logger } from "../utils/logger.js";
+
+export class CachedProvider implements Provider {
+  name: string;
+  private inner: Provider;
+  private cache: ResponseCache;
+
+  constructor(inner: Provider, cache: ResponseCache) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.cache = cache;
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+
+  listModels(): Promise<ModelInfo[]> {
+    return this.inner.listModels();
+  }
+
+  async query(
+    model: string,
+    prompt: QueryInput,
+    options?: QueryOptions
+  ): Promise<QueryResponse> {
+    const mode = options?.cache ?? (options?.temperature === 0 ? "use" : "bypass");
+    if (mode === "bypass") return this.inner.query(model, prompt, options);
+
+    const { stream, onProgress, cache, system_prompt, ...sampling } = options ?? {};
+    // Key on what the alias points at now, so repointing it doesn't serve the old model's answers
+    const key = ResponseCache.keyFor({
+      model: resolveAlias(model),
+      messages: buildMessages(prompt, system_prompt),
+      ...sampling,
+    });
+
+    if (mode === "use") {
+      try {
+        const hit = await this.cache.get(key);
+        if (hit) {
+          logger.info(`cache: hit for ${model}`);
+          return { ...hit.response, cached_at: hit.storedAt };
+        }
+      } catch (err) {
+        logger.warn(`cache: read failed, querying ${model}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    const response = await this.inner.query(model, prompt, options);
+
+    if (!response.fallback_from) {
+      this.cache.set(key, response).catch((err) => {
+        logger.warn(`cache: write failed for ${model}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Gemini Backend — talks to Google's native generateContent REST API.
+ *
+ * Gemini is reachable through CLIProxyAPI's OpenAI shim too, but the shim
+ * hides how much of the output budget went to thinking. Natively we get:
+ * - thought parts          → QueryResponse.reasoning_content
+ * - thoughtsTokenCount     → usage.reasoning_tokens
+ * - an explicit thinking budget instead of the 4x adjustMaxTokens guess
+ *
+ * Default endpoint: https://generativelanguage.googleapis.com
+ */
+
+import { Provider, ModelInfo, QueryInput, QueryOptions, QueryResponse } from "./provider.js";
+import { supportsThinkingBudget } from "../utils/reasoning-models.js";
+import { getConfig } from "../utils/config.js";
+import { fetchWithTimeout } from "../utils/fetch-with-timeout.js";
+import { withRetry } from "../utils/retry.js";
+import { validateResponse } from "../utils/response-validator.js";
+import { logQuery, generateRequestId } from "../utils/logger.js";
+import { buildMessages } from "../utils/messages.js";
+import { readSSE } from "../utils/stream.js";
+
+/** Thinking budget for thinking-capable models when the caller doesn't set one */
+const DEFAULT_THINKING_BUDGET = 4096;
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiChunk {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; thought?: boolean }> };
+    finishReason?: string;
+  }>;
+  usageMetadata?: GeminiUsageMetadata;
+  promptFeedback?: { blockReason?: string };
+}
+
+interface GenerateResult {
+  content: string;
+  thoughts: string;
+  finishReason?: string;
+  blockReason?: string;
+  usage?: GeminiUsageMetadata;
+}
+
+export class GeminiProvider implements Provider {
+  name = "Gemini";
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl?: string, apiKey?: string) {
+    this.baseUrl = (baseUrl ?? process.env.GEMINI_BASE_URL ?? "https://generativelanguage.googleapis.com")
+      .replace(/\/+$/, "");
+    this.apiKey = apiKey ?? process.env.GEMINI_API_KEY ?? "";
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-goog-api-key": this.apiKey,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const res = await fetchWithTimeout(`${this.baseUrl}/v1beta/models?pageSize=1`, {
+        headers: this.headers(),
+      });
+      // Only the status matters; drop the body so nothing keeps reading it
+      await res.body?.cancel();
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const res = await fetchWithTimeout(`${this.baseUrl}/v1beta/models?pageSize=1000`, {
+      headers: this.headers(),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to list Gemini models: ${res.status} ${res.statusText}`);
+    }
+
+    const data = (await res.json()) as {
+      models?: Array<{
+        name: string;
+        displayName?: string;
+        supportedGenerationMethods?: string[];
+      }>;
+    };
+
+    return (data.models ?? [])
+      .filter((m) => m.supportedGenerationMethods?.includes("generateContent") ?? true)
+      .map((m) => {
+        const id = m.name.replace(/^models\//, "");
+        return { id, name: m.displayName ?? id, provider: "gemini" };
+      });
+  }
+
+  async query(
+    model: string,
+    prompt: QueryInput,
+    options?: QueryOptions
+  ): Promise<QueryResponse> {
+    const startTime = Date.now();
+    const requestId = generateRequestId();
+
+    // System turns become systemInstruction; assistant turns are "model"
+    const all = buildMessages(prompt, options?.system_prompt);
+    const system = all.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const contents = all
+      .filter((m) => m.role !== "system")
+      .map((m) => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [
+          { text: m.content },
+          ...(m.images ?? []).map((image) => ({ inlineData: { mimeType: image.mime_type, data: image.data } })),
+        ],
+      }));
+
+    // A budget of 0 is sent as-is: it turns thinking off on models that allow that
+    const thinking = supportsThinkingBudget(model);
+    const thinkingBudget = thinking
+      ? options?.thinking_budget ?? DEFAULT_THINKING_BUDGET
+      : undefined;
+
+    const generationConfig: Record<string, unknown> = {};
+    if (options?.temperature !== undefined) generationConfig.temperature = options.temperature;
+    if (options?.stop_sequences?.length) generationConfig.stopSequences = options.stop_sequences;
+    if (options?.max_tokens !== undefined) {
+      // Thinking tokens count against maxOutputTokens, so reserve the budget on top
+      generationConfig.maxOutputTokens = options.max_tokens + (thinkingBudget ?? 0);
+    }
+    if (options?.response_schema) {
+      generationConfig.responseMimeType = "application/json";
+      generationConfig.responseJsonSchema = options.response_schema;
+    }
+    if (thinkingBudget !== undefined) {
+      generationConfig.thinkingConfig = {
+        thinkingBudget,
+        includeThoughts: thinkingBudget > 0,
+      };
+    }
+
+    const body: Record<string, unknown> = { contents, generationConfig };
+    if (system) body.systemInstruction = { parts: [{ text: system }] };
+
+    const method = options?.stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    const url = `${this.baseUrl}/v1beta/models/${encodeURIComponent(model)}:${method}`;
+    const requestTimeout = thinkingBudget
+      ? getConfig().timeouts.reasoning_ms
+      : undefined;
+
+    try {
+      const result = await withRetry(async () => {
+        const res = await fetchWithTimeout(url, {
+          method: "POST",
+          headers: this.headers(),
+          body: JSON.stringify(body),
+        }, requestTimeout);
+
+        if (!res.ok) {
+          const errorText = await res.text();
+          throw new Error(`Gemini query failed (${res.status}): ${errorText}`);
+        }
+
+        const parsed = options?.stream
+          ? await this.readStream(res, model, options.onProgress)
+          : accumulate({ content: "", thoughts: "" }, (await res.json()) as GeminiChunk);
+
+        if (parsed.blockReason && !parsed.content) {
+          throw new Error(`Gemini blocked the prompt (${parsed.blockReason})`);
+        }
+
+        const latency_ms = Date.now() - startTime;
+
+        let content = parsed.content;
+        if (!content && parsed.thoughts) {
+          content = `*[Model produced reasoning but no final answer — showing reasoning output]*\n\n${parsed.thoughts}`;
+        }
+
+        const response: QueryResponse = {
+          model,
+          content,
+          reasoning_content: parsed.thoughts || undefined,
+          usage: mapUsage(parsed.usage),
+          latency_ms,
+          finish_reason: mapFinishReason(parsed.finishReason),
+        };
+
+        return validateResponse(response);
+      });
+
+      logQuery({ requestId, model, latency_ms: result.latency_ms, status: "ok", finish_reason: result.finish_reason });
+      return result;
+    } catch (err) {
+      logQuery({ requestId, model, latency_ms: Date.now() - startTime, status: "error" });
+      throw err;
+    }
+  }
+
+  /**
+   * Accumulate a streamGenerateContent SSE stream. Every event is a full
+   * GenerateContentResponse holding only the new parts; usageMetadata is
+   * cumulative, so the last one wins.
+   */
+  private async readStream(
+    res: Response,
+    model: string,
+    onProgress?: QueryOptions["onProgress"]
+  ): Promise<GenerateResult> {
+    const result: GenerateResult = { content: "", thoughts: "" };
+    let chunks = 0;
+
+    for await (const payload of readSSE(res)) {
+      const before = result.content.length + result.thoughts.length;
+      accumulate(result, JSON.parse(payload) as GeminiChunk);
+
+      if (result.content.length + result.thoughts.length > before) {
+        chunks++;
+        onProgress?.({
+          model,
+          content: result.content,
+          completion_tokens: result.usage?.candidatesTokenCount ?? chunks,
+        });
+      }
+    }
+
+    return result;
+  }
+}
+
+function accumulate(result: GenerateResult, chunk: GeminiChunk): GenerateResult {
+  const candidate = chunk.candidates?.[0];
+  for (const part of candidate?.content?.parts ?? []) {
+    if (!part.text) continue;
+    if (part.thought) result.thoughts += part.text;
+    else result.content += part.text;
+  }
+  if (candidate?.finishReason) result.finishReason = candidate.finishReason;
+  if (chunk.usageMetadata) result.usage = chunk.usageMetadata;
+  if (chunk.promptFeedback?.blockReason) result.blockReason = chunk.promptFeedback.blockReason;
+  return result;
+}
+
+function mapFinishReason(reason?: string): string | undefined {
+  switch (reason) {
+    case undefined:
+      return undefined;
+    case "STOP":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+      return "content_filter";
+    default:
+      return reason.toLowerCase();
+  }
+}
+
+/** Gemini counts thoughts separately from candidates; completion_tokens is their sum */
+function mapUsage(usage?: GeminiUsageMetadata): QueryResponse["usage"] {
+  if (!usage) return undefined;
+
+  const prompt_tokens = usage.promptTokenCount ?? 0;
+  const thoughts = usage.thoughtsTokenCount ?? 0;
+  const completion_tokens = (usage.candidatesTokenCount ?? 0) + thoughts;
+  const cached = usage.cachedContentTokenCount ?? 0;
+
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: usage.totalTokenCount ?? prompt_tokens + completion_tokens,
+    ...(cached > 0 ? { cache_read_tokens: cached } : {}),
+    ...(thoughts > 0 ? { reasoning_tokens: thoughts } : {}),
+  };
+}
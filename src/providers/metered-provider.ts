@@ -0,0 +1,51 @@
+/**
+ * MeteredProvider — wraps a Provider and reports every query to callbacks.
+ * The cost ledger uses one per tool call, so it can total up the fan-out,
+ * the judge and the synthesizer without the tools having to pass costs
+ * around. Failures are reported too, so the usage log can count them.
+ */
+
+import { Provider, ModelInfo, QueryInput, QueryOptions, QueryResponse } from "./provider.js";
+
+export class MeteredProvider implements Provider {
+  name: string;
+  private inner: Provider;
+  private onResponse: (model: string, response: QueryResponse) => void;
+  private onError?: (model: string, err: unknown, latencyMs: number) => void;
+
+  constructor(
+    inner: Provider,
+    onResponse: (model: string, response: QueryResponse) => void,
+    onError?: (model: string, err: unknown, latencyMs: number) => void
+  ) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.onResponse = onResponse;
+    this.onError = onError;
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+
+  listModels(): Promise<ModelInfo[]> {
+    return this.inner.listModels();
+  }
+
+  async query(
+    model: string,
+    prompt: QueryInput,
+    options?: QueryOptions
+  ): Promise<QueryResponse> {
+    const startTime = Date.now();
+    let response: QueryResponse;
+    try {
+      response = await this.inner.query(model, prompt, options);
+    } catch (err) {
+      this.onError?.(model, err, Date.now() - startTime);
+      throw err;
+    }
+    this.onResponse(model, response);
+    return response;
+  }
+}
@@ -7,30 +7,61 @@
  * Model routing works by prefix:
  *   "ollama/llama3"      → OllamaProvider.query("llama3", ...)
  *   "cliproxy/gpt-4o"    → CLIProxyAPIProvider.query("gpt-4o", ...)
+ *   "anthropic/claude-…" → AnthropicProvider.query("claude-…", ...)
+ *   "gemini/gemini-2.5-pro" → GeminiProvider.query("gemini-2.5-pro", ...)
+ *   "vllm/qwen3-32b"     → OpenAICompatibleProvider registered as "vllm"
+ *
+ * Aliases from config ("fast", "smart") are resolved to a real model ID
+ * first; "@group" names only work in the fan-out tools.
+ *
+ * Prompts carrying images only go to vision models (see vision-models.ts),
+ * and tools only to backends that forward them; anything else fails
+ * before it reaches a backend.
  *
  * Or without prefix, we try each provider until one has the model.
  * This keeps the tool layer simple — it just calls query() and
  * MultiProvider figures out where to send it.
  */
 
-import { Provider, ModelInfo, QueryOptions, QueryResponse } from "./provider.js";
+import { Provider, ModelInfo, QueryInput, QueryOptions, QueryResponse } from "./provider.js";
 import { logger } from "../utils/logger.js";
-import { CircuitBreaker, CircuitOpenError } from "../utils/circuit-breaker.js";
+import { CircuitBreaker, CircuitBreakerOptions, CircuitOpenError, CircuitStats } from "../utils/circuit-breaker.js";
 import { getFallbacks } from "../utils/fallback-chains.js";
+import { getConfig } from "../utils/config.js";
+import { isGroup, resolveAlias } from "../utils/model-aliases.js";
+import { hasImages } from "../utils/images.js";
+import { supportsVision, VisionUnsupportedError } from "../utils/vision-models.js";
+import { usesTools } from "../utils/tool-calls.js";
 
-const BLOCKED_MODELS = new Set<string>([]);
+/** Blocklist from config. Read per call so hot reloads apply immediately. */
+function isBlocked(model: string): boolean {
+  const blocked = getConfig().blocked_models;
+  if (blocked.length === 0) return false;
+  const modelName = model.includes("/") ? model.substring(model.indexOf("/") + 1) : model;
+  return blocked.includes(model) || blocked.includes(modelName) || blocked.includes(model.split("/").pop() ?? "");
+}
 
 export class MultiProvider implements Provider {
   name = "HydraMCP";
   private providers: Map<string, Provider> = new Map();
-  private circuitBreaker = new CircuitBreaker();
+  private circuitBreaker: CircuitBreaker;
   private queryCount = 0;
+  /** Exponentially weighted latency of successful queries, by "provider/model" */
+  private latencies: Map<string, number> = new Map();
+
+  constructor(options?: { circuitBreaker?: CircuitBreakerOptions }) {
+    this.circuitBreaker = new CircuitBreaker(options?.circuitBreaker);
+  }
 
   register(key: string, provider: Provider): void {
     this.providers.set(key, provider);
     logger.info(`Registered provider: ${key} (${provider.name})`);
   }
 
+  has(key: string): boolean {
+    return this.providers.has(key);
+  }
+
   async healthCheck(): Promise<boolean> {
     const checks = await Promise.all(
       [...this.providers.entries()].map(async ([key, p]) => {
@@ -58,28 +89,34 @@ export class MultiProvider implements Provider {
 
     return results
       .flatMap((r) => (r.status === "fulfilled" ? r.value : []))
-      .filter(
-        (m) =>
-          !BLOCKED_MODELS.has(m.id) &&
-          !BLOCKED_MODELS.has(m.id.split("/").pop() ?? "")
-      );
+      .filter((m) => !isBlocked(m.id));
   }
 
   async query(
     model: string,
-    prompt: string,
+    prompt: QueryInput,
     options?: QueryOptions
   ): Promise<QueryResponse> {
+    if (isGroup(model)) {
+      throw new Error(
+        `"${model}" is a model group — pass it to compare_models, consensus, synthesize or debate, or pick one model`
+      );
+    }
+    model = resolveAlias(model);
+
     // Check if model is blocked
-    const modelName = model.includes("/")
-      ? model.substring(model.indexOf("/") + 1)
-      : model;
-    if (BLOCKED_MODELS.has(model) || BLOCKED_MODELS.has(modelName)) {
+    if (isBlocked(model)) {
       throw new Error(
         `Model "${model}" is blocked. It has been removed from the available models.`
       );
     }
 
+    // Refuse up front rather than let the backend drop the images and answer blind.
+    // Fallbacks come back through here, so a text-only fallback is skipped the same way.
+    if (hasImages(prompt) && !supportsVision(model)) {
+      throw new VisionUnsupportedError(model);
+    }
+
     // Check for explicit prefix: "ollama/llama3" or "cliproxy/gpt-4o"
     const slashIndex = model.indexOf("/");
     if (slashIndex > 0) {
@@ -120,18 +157,26 @@ export class MultiProvider implements Provider {
     providerKey: string,
     provider: Provider,
     modelId: string,
-    prompt: string,
+    prompt: QueryInput,
     options?: QueryOptions,
     depth: number = 0
   ): Promise<QueryResponse> {
     const fullModelId = `${providerKey}/${modelId}`;
 
+    // Not a model failure, so it stays out of the circuit breaker and skips fallbacks
+    if (!provider.supportsTools && usesTools(prompt, options)) {
+      throw new Error(
+        `The ${providerKey} backend (${provider.name}) doesn't forward tool calls — use an OpenAI-compatible or Ollama model`
+      );
+    }
+
     try {
       const result = await this.circuitBreaker.execute(fullModelId, () =>
         provider.query(modelId, prompt, options)
       );
       this.logHealthPeriodically();
-      return result;
+      this.recordLatency(fullModelId, result.latency_ms);
+      return { ...result, provider: providerKey };
     } catch (err) {
       // On failure (including CircuitOpenError), try fallback chain
       if (depth < 2) {
@@ -162,7 +207,57 @@ export class MultiProvider implements Provider {
     }
   }
 
-  getHealth(): Record<string, { state: string; failures: number; successes: number; totalRequests: number }> {
+  getHealth(): Record<string, CircuitStats> {
     return this.circuitBreaker.getHealthSummary();
   }
+
+  /** Write pending circuit state now; call before exiting */
+  flush(): Promise<void> {
+    return this.circuitBreaker.flush();
+  }
+
+  /** Recent average latency for a "provider/model" ID, if it has answered since startup */
+  getLatency(model: string): number | undefined {
+    return this.latencies.get(model);
+  }
+
+  private recordLatency(model: string, latencyMs: number): void {
+    const previous = this.latencies.get(model);
+    // Weight recent queries more, so a model that got faster (or slower) shows it quickly
+    this.latencies.set(model, previous === undefined ? latencyMs : previous * 0.7 + latencyMs * 0.3);
+  }
+
+  /** Run every backend's healthCheck() in parallel */
+  async checkProviders(): Promise<Array<{ key: string; name: string; reachable: boolean }>> {
+    return Promise.all(
+      [...this.providers.entries()].map(async ([key, p]) => ({
+        key,
+        name: p.name,
+        reachable: await p.healthCheck().catch(() => false),
+      }))
+    );
+  }
+
+  /** Circuits are keyed by "provider/model"; the provider must be registered */
+  resetCircuit(model: string): void {
+    this.circuitBreaker.reset(this.circuitKey(model));
+  }
+
+  forceOpenCircuit(model: string, cooldownMs?: number): void {
+    this.circuitBreaker.forceOpen(this.circuitKey(model), cooldownMs);
+  }
+
+  private circuitKey(model: string): string {
+    const slashIndex = model.indexOf("/");
+    if (slashIndex <= 0) {
+      throw new Error(`Circuits are per backend — use a prefixed model ID like "cliproxy/${model}"`);
+    }
+    const providerKey = model.substring(0, slashIndex);
+    if (!this.providers.has(providerKey)) {
+      throw new Error(
+        `Unknown provider "${providerKey}". Available: ${[...this.providers.keys()].join(", ")}`
+      );
+    }
+    return model;
+  }
 }
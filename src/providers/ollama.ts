@@ -16,14 +16,67 @@
  * - Zero cost for the local side
  */
 
-import { Provider, ModelInfo, QueryOptions, QueryResponse } from "./provider.js";
+import { Provider, ModelInfo, ChatMessage, QueryInput, QueryOptions, QueryResponse, ToolCall } from "./provider.js";
+import { getConfig } from "../utils/config.js";
 import { fetchWithTimeout } from "../utils/fetch-with-timeout.js";
 import { withRetry } from "../utils/retry.js";
 import { validateResponse } from "../utils/response-validator.js";
-import { logQuery, generateRequestId } from "../utils/logger.js";
+import { logger, logQuery, generateRequestId } from "../utils/logger.js";
+import { buildMessages } from "../utils/messages.js";
+import { readNDJSON } from "../utils/stream.js";
+import { parseToolArguments } from "../utils/tool-calls.js";
+
+/** Shape shared by /api/chat responses and the final chunk of a stream */
+interface OllamaChatChunk {
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  /** Set instead of a message when the model fails partway through a stream */
+  error?: string;
+}
+
+/** Ollama sends arguments as an object, and older versions send no id */
+interface OllamaToolCall {
+  id?: string;
+  function: { name: string; arguments?: unknown };
+}
+
+/**
+ * Native /api/chat message shape: images as bare base64 strings, tool
+ * call arguments as objects, and tool results named after the tool
+ * (Ollama matches them by name, not by call id).
+ */
+function toWireMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+  const toolNames = new Map<string, string>();
+  return messages.map((m) => {
+    const wire: Record<string, unknown> = { role: m.role, content: m.content };
+    if (m.images?.length) wire.images = m.images.map((image) => image.data);
+    if (m.tool_calls?.length) {
+      wire.tool_calls = m.tool_calls.map((call) => {
+        toolNames.set(call.id, call.name);
+        const args = parseToolArguments(call.arguments);
+        return { function: { name: call.name, arguments: typeof args === "object" && args !== null ? args : {} } };
+      });
+    }
+    if (m.role === "tool" && m.tool_call_id) wire.tool_name = toolNames.get(m.tool_call_id);
+    return wire;
+  });
+}
+
+function fromWireToolCalls(calls: OllamaToolCall[] | undefined): ToolCall[] | undefined {
+  if (!calls?.length) return undefined;
+  return calls.map((call, i) => ({
+    id: call.id ?? `call_${i}`,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments),
+  }));
+}
 
 export class OllamaProvider implements Provider {
   name = "Ollama";
+  supportsTools = true;
   private baseUrl: string;
 
   constructor(baseUrl?: string) {
@@ -33,6 +86,8 @@ export class OllamaProvider implements Provider {
   async healthCheck(): Promise<boolean> {
     try {
       const res = await fetchWithTimeout(`${this.baseUrl}/api/tags`);
+      // Only the status matters; drop the body so nothing keeps reading it
+      await res.body?.cancel();
       return res.ok;
     } catch {
       return false;
@@ -58,27 +113,33 @@ export class OllamaProvider implements Provider {
 
   async query(
     model: string,
-    prompt: string,
+    prompt: QueryInput,
     options?: QueryOptions
   ): Promise<QueryResponse> {
     const startTime = Date.now();
     const requestId = generateRequestId();
-    const ollamaTimeout = parseInt(process.env.HYDRA_OLLAMA_TIMEOUT_MS ?? "180000", 10);
+    const ollamaTimeout = getConfig().timeouts.ollama_ms;
 
     // Ollama supports OpenAI-compatible endpoint
     const body: Record<string, unknown> = {
       model,
-      messages: [
-        ...(options?.system_prompt
-          ? [{ role: "system", content: options.system_prompt }]
-          : []),
-        { role: "user", content: prompt },
-      ],
-      stream: false,
+      messages: toWireMessages(buildMessages(prompt, options?.system_prompt)),
+      stream: options?.stream ?? false,
     };
 
-    if (options?.temperature !== undefined) {
-      body.options = { temperature: options.temperature };
+    const modelOptions: Record<string, unknown> = {};
+    if (options?.temperature !== undefined) modelOptions.temperature = options.temperature;
+    if (options?.stop_sequences?.length) modelOptions.stop = options.stop_sequences;
+    if (Object.keys(modelOptions).length > 0) body.options = modelOptions;
+    // Ollama constrains decoding to the schema itself
+    if (options?.response_schema) body.format = options.response_schema;
+
+    // Ollama has no tool_choice: "none" is done by not sending tools, the rest is up to the model
+    if (options?.tools?.length && options.tool_choice !== "none") {
+      body.tools = options.tools.map((tool) => ({ type: "function", function: tool }));
+      if (options.tool_choice && options.tool_choice !== "auto") {
+        logger.warn(`ollama: tool_choice ${JSON.stringify(options.tool_choice)} isn't supported, ${model} decides on its own`);
+      }
     }
 
     try {
@@ -99,12 +160,9 @@ export class OllamaProvider implements Provider {
           throw new Error(`Ollama query failed (${res.status}): ${errorText}`);
         }
 
-        const data = (await res.json()) as {
-          message?: { content?: string };
-          done_reason?: string;
-          prompt_eval_count?: number;
-          eval_count?: number;
-        };
+        const data = options?.stream
+          ? await this.readStream(res, model, options.onProgress)
+          : ((await res.json()) as OllamaChatChunk);
 
         const latency_ms = Date.now() - startTime;
         const prompt_tokens = data.prompt_eval_count ?? 0;
@@ -113,6 +171,7 @@ export class OllamaProvider implements Provider {
         const response: QueryResponse = {
           model,
           content: data.message?.content ?? "",
+          tool_calls: fromWireToolCalls(data.message?.tool_calls),
           usage: {
             prompt_tokens,
             completion_tokens,
@@ -132,4 +191,33 @@ export class OllamaProvider implements Provider {
       throw err;
     }
   }
+
+  /**
+   * Accumulate an NDJSON /api/chat stream into one response-shaped object.
+   * The final chunk (done: true) carries the token counts and done_reason.
+   */
+  private async readStream(
+    res: Response,
+    model: string,
+    onProgress?: QueryOptions["onProgress"]
+  ): Promise<OllamaChatChunk> {
+    let content = "";
+    const toolCalls: OllamaToolCall[] = [];
+    let chunks = 0;
+    let final: OllamaChatChunk = {};
+
+    for await (const chunk of readNDJSON<OllamaChatChunk>(res)) {
+      if (chunk.error) throw new Error(`Ollama stream failed: ${chunk.error}`);
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        chunks++;
+        onProgress?.({ model, content, completion_tokens: chunks });
+      }
+      // Tool calls come whole, not as deltas
+      if (chunk.message?.tool_calls) toolCalls.push(...chunk.message.tool_calls);
+      if (chunk.done) final = chunk;
+    }
+
+    return { ...final, message: { content, tool_calls: toolCalls } };
+  }
 }
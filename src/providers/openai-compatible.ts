@@ -0,0 +1,355 @@
+/**
+ * OpenAI-compatible Backend — talks to anything that speaks /v1/chat/completions.
+ *
+ * vLLM, LM Studio, llama.cpp server, OpenRouter and most internal gateways
+ * all expose the same OpenAI wire format. One class covers them all; each
+ * endpoint is just a base URL, an optional API key, extra headers and a
+ * timeout. Register as many as you like under different prefixes.
+ *
+ * CLIProxyAPIProvider is this class with CLIProxyAPI's defaults.
+ *
+ * response_schema goes out as response_format json_schema, which plenty
+ * of servers behind this wire format don't implement. A 400 on a request
+ * carrying it is retried once without it; if that succeeds, the model is
+ * remembered and later queries skip it, leaving validation to the prompt
+ * instructions and repair loop in structured-output.ts.
+ */
+
+import { Provider, ModelInfo, ChatMessage, QueryInput, QueryOptions, QueryResponse, ToolCall, ToolChoice } from "./provider.js";
+import { isReasoningModel, adjustMaxTokens } from "../utils/reasoning-models.js";
+import { getConfig } from "../utils/config.js";
+import { fetchWithTimeout } from "../utils/fetch-with-timeout.js";
+import { withRetry } from "../utils/retry.js";
+import { validateResponse } from "../utils/response-validator.js";
+import { logger, logQuery, generateRequestId } from "../utils/logger.js";
+import { buildMessages } from "../utils/messages.js";
+import { readSSE } from "../utils/stream.js";
+import { parseToolArguments } from "../utils/tool-calls.js";
+
+interface ChatCompletionResult {
+  content: string;
+  tool_calls?: ToolCall[];
+  reasoning_content?: string;
+  usage?: QueryResponse["usage"];
+  finish_reason?: string;
+}
+
+/** Function calls as the chat completions API sends and takes them */
+interface WireToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/**
+ * Images go in as image_url content parts (data: URLs) after the text.
+ * Tool calls go back with their arguments re-serialized, and tool results
+ * as "tool" turns pointing at their call.
+ */
+function toWireMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.tool_call_id, content: message.content };
+  }
+  if (message.tool_calls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.tool_calls.map((call): WireToolCall => ({
+        id: call.id,
+        type: "function",
+        function: {
+          name: call.name,
+          arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+        },
+      })),
+    };
+  }
+  if (!message.images?.length) return { role: message.role, content: message.content };
+  return {
+    role: message.role,
+    content: [
+      { type: "text", text: message.content },
+      ...message.images.map((image) => ({
+        type: "image_url",
+        image_url: { url: `data:${image.mime_type};base64,${image.data}` },
+      })),
+    ],
+  };
+}
+
+function toWireToolChoice(choice: ToolChoice): unknown {
+  return typeof choice === "string" ? choice : { type: "function", function: { name: choice.name } };
+}
+
+function fromWireToolCalls(calls: WireToolCall[] | undefined): ToolCall[] | undefined {
+  if (!calls?.length) return undefined;
+  return calls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments),
+  }));
+}
+
+export interface OpenAICompatibleOptions {
+  /** Human-readable name shown in logs and list_models */
+  name: string;
+  /** Server root, e.g. http://localhost:8000 (a trailing /v1 is tolerated) */
+  baseUrl: string;
+  /** Sent as "Authorization: Bearer <key>" when set */
+  apiKey?: string;
+  /** Extra headers for every request (gateway auth, org IDs, ...) */
+  headers?: Record<string, string>;
+  /** Per-request timeout. Overrides both the default and the reasoning-model timeout. */
+  timeoutMs?: number;
+}
+
+export class OpenAICompatibleProvider implements Provider {
+  name: string;
+  supportsTools = true;
+  private baseUrl: string;
+  private apiKey: string;
+  private extraHeaders: Record<string, string>;
+  private timeoutMs?: number;
+  /** Models that answered only once response_format was dropped */
+  private noResponseFormat: Set<string> = new Set();
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "");
+    this.apiKey = options.apiKey ?? "";
+    this.extraHeaders = options.headers ?? {};
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  private headers(): Record<string, string> {
+    const h: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.extraHeaders,
+    };
+    if (this.apiKey) h["Authorization"] = `Bearer ${this.apiKey}`;
+    return h;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const res = await fetchWithTimeout(`${this.baseUrl}/v1/models`, {
+        headers: this.headers(),
+      }, this.timeoutMs);
+      // Only the status matters; drop the body so nothing keeps reading it
+      await res.body?.cancel();
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const res = await fetchWithTimeout(`${this.baseUrl}/v1/models`, {
+      headers: this.headers(),
+    }, this.timeoutMs);
+    if (!res.ok) {
+      throw new Error(`Failed to list models: ${res.status} ${res.statusText}`);
+    }
+
+    const data = (await res.json()) as {
+      data?: Array<{ id: string; owned_by?: string }>;
+    };
+
+    return (data.data ?? []).map((m) => ({
+      id: m.id,
+      name: m.id,
+      provider: m.owned_by ?? "unknown",
+    }));
+  }
+
+  async query(
+    model: string,
+    prompt: QueryInput,
+    options?: QueryOptions
+  ): Promise<QueryResponse> {
+    const startTime = Date.now();
+    const requestId = generateRequestId();
+
+    const reasoning = isReasoningModel(model);
+    const effectiveMaxTokens = options?.max_tokens !== undefined
+      ? adjustMaxTokens(model, options.max_tokens)
+      : undefined;
+    const requestTimeout = this.timeoutMs ?? (reasoning
+      ? getConfig().timeouts.reasoning_ms
+      : undefined);
+
+    const body: Record<string, unknown> = {
+      model,
+      messages: buildMessages(prompt, options?.system_prompt).map(toWireMessage),
+      stream: options?.stream ?? false,
+    };
+
+    // Ask for a final usage chunk so streamed responses still report tokens
+    if (options?.stream) body.stream_options = { include_usage: true };
+
+    if (options?.temperature !== undefined) body.temperature = options.temperature;
+    if (options?.stop_sequences?.length) body.stop = options.stop_sequences;
+    if (options?.response_schema && !this.noResponseFormat.has(model)) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { name: "response", schema: options.response_schema },
+      };
+    }
+    if (options?.tools?.length) {
+      body.tools = options.tools.map((tool) => ({ type: "function", function: tool }));
+      if (options.tool_choice) body.tool_choice = toWireToolChoice(options.tool_choice);
+    }
+    if (effectiveMaxTokens !== undefined) {
+      body.max_tokens = effectiveMaxTokens;
+      // Some providers use max_completion_tokens for reasoning models
+      if (reasoning) body.max_completion_tokens = effectiveMaxTokens;
+    }
+
+    try {
+      const result = await withRetry(async () => {
+        const post = () =>
+          fetchWithTimeout(`${this.baseUrl}/v1/chat/completions`, {
+            method: "POST",
+            headers: this.headers(),
+            body: JSON.stringify(body),
+          }, requestTimeout);
+
+        let res = await post();
+        if (res.status === 400 && body.response_format) {
+          const errorText = await res.text();
+          logger.warn(`${this.name}: ${model} rejected response_format, retrying without it: ${errorText.slice(0, 200)}`);
+          delete body.response_format;
+          res = await post();
+          if (res.ok) this.noResponseFormat.add(model);
+        }
+
+        if (!res.ok) {
+          const errorText = await res.text();
+          throw new Error(`Model query failed (${res.status}): ${errorText}`);
+        }
+
+        const parsed = options?.stream
+          ? await this.readStream(res, model, options.onProgress)
+          : await this.readJson(res);
+
+        const latency_ms = Date.now() - startTime;
+
+        // For reasoning models: if content is empty but reasoning_content exists,
+        // the model burned all tokens on thinking. Surface the reasoning as fallback.
+        let content = parsed.content;
+        const reasoningContent = parsed.reasoning_content;
+
+        if (!content && reasoningContent && reasoning) {
+          content = `*[Model produced reasoning but no final answer — showing reasoning output]*\n\n${reasoningContent}`;
+        }
+
+        const response: QueryResponse = {
+          model,
+          content,
+          tool_calls: parsed.tool_calls,
+          reasoning_content: reasoningContent,
+          usage: parsed.usage,
+          latency_ms,
+          finish_reason: parsed.finish_reason,
+        };
+
+        return validateResponse(response);
+      });
+
+      logQuery({ requestId, model, latency_ms: result.latency_ms, status: "ok", finish_reason: result.finish_reason });
+      return result;
+    } catch (err) {
+      logQuery({ requestId, model, latency_ms: Date.now() - startTime, status: "error" });
+      throw err;
+    }
+  }
+
+  private async readJson(res: Response): Promise<ChatCompletionResult> {
+    const data = (await res.json()) as {
+      choices?: Array<{
+        message?: { content?: string | null; reasoning_content?: string; tool_calls?: WireToolCall[] };
+        finish_reason?: string;
+      }>;
+      usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+      };
+    };
+
+    const choice = data.choices?.[0];
+    return {
+      content: choice?.message?.content ?? "",
+      tool_calls: fromWireToolCalls(choice?.message?.tool_calls),
+      reasoning_content: choice?.message?.reasoning_content,
+      usage: data.usage,
+      finish_reason: choice?.finish_reason,
+    };
+  }
+
+  /**
+   * Accumulate an SSE chat completion stream. Each chunk carries a delta;
+   * the last one (with include_usage) carries the token counts. Tool calls
+   * arrive in pieces keyed by index: the first piece has the id and name,
+   * the rest append to the arguments string.
+   */
+  private async readStream(
+    res: Response,
+    model: string,
+    onProgress?: QueryOptions["onProgress"]
+  ): Promise<ChatCompletionResult> {
+    let content = "";
+    let reasoningContent = "";
+    const toolCalls: WireToolCall[] = [];
+    let finishReason: string | undefined;
+    let usage: QueryResponse["usage"];
+    let chunks = 0;
+
+    for await (const payload of readSSE(res)) {
+      const chunk = JSON.parse(payload) as {
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            reasoning_content?: string | null;
+            tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+          };
+          finish_reason?: string | null;
+        }>;
+        usage?: {
+          prompt_tokens: number;
+          completion_tokens: number;
+          total_tokens: number;
+        } | null;
+      };
+
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) content += choice.delta.content;
+      if (choice?.delta?.reasoning_content) reasoningContent += choice.delta.reasoning_content;
+      for (const piece of choice?.delta?.tool_calls ?? []) {
+        const call = (toolCalls[piece.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+        if (piece.id) call.id = piece.id;
+        if (piece.function?.name) call.function.name += piece.function.name;
+        if (piece.function?.arguments) call.function.arguments += piece.function.arguments;
+      }
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+      if (chunk.usage) usage = chunk.usage;
+
+      if (choice?.delta?.content || choice?.delta?.reasoning_content) {
+        chunks++;
+        onProgress?.({
+          model,
+          content,
+          completion_tokens: usage?.completion_tokens ?? chunks,
+        });
+      }
+    }
+
+    return {
+      content,
+      tool_calls: fromWireToolCalls(toolCalls.filter(Boolean)),
+      reasoning_content: reasoningContent || undefined,
+      usage,
+      finish_reason: finishReason,
+    };
+  }
+}
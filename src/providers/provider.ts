@@ -13,40 +13,135 @@ export interface ModelInfo {
   provider: string;
 }
 
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** Images attached to a user turn. Only vision models accept them. */
+  images?: ImageAttachment[];
+  /** Tool calls the model made on an assistant turn */
+  tool_calls?: ToolCall[];
+  /** On a "tool" turn: the call this message is the result of */
+  tool_call_id?: string;
+}
+
+/** An image as the backends want it: base64 bytes plus MIME type */
+export interface ImageAttachment {
+  mime_type: string;
+  /** Base64, no data: URL prefix */
+  data: string;
+}
+
+/** A single user prompt, or a full conversation history ending in a user (or tool) turn */
+export type QueryInput = string | ChatMessage[];
+
+/** A function the model may call, in OpenAI's shape */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON Schema for the arguments */
+  parameters: Record<string, unknown>;
+}
+
+/** A call the model wants made. HydraMCP never runs it — the caller decides. */
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Parsed JSON arguments, or the raw string when the model produced invalid JSON */
+  arguments: unknown;
+}
+
+/** auto = model decides, none = no calls, required = must call something, { name } = must call that tool */
+export type ToolChoice = "auto" | "none" | "required" | { name: string };
+
 export interface QueryOptions {
   system_prompt?: string;
   temperature?: number;
   max_tokens?: number;
+  /** Stop generating when any of these strings is produced */
+  stop_sequences?: string[];
+  /** Token budget for extended thinking, on backends that let callers set it */
+  thinking_budget?: number;
+  /**
+   * JSON Schema the answer should match. Turns on the backend's native JSON
+   * mode where it has one; nothing is validated here — use queryStructured()
+   * from utils/structured-output.ts for that.
+   */
+  response_schema?: Record<string, unknown>;
+  /** Tools the model may call; calls come back in QueryResponse.tool_calls */
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  /** Consume the backend's streaming endpoint instead of waiting for the full body */
   stream?: boolean;
+  /** Called as partial output arrives. Only fires when stream is true. */
+  onProgress?: (progress: QueryProgress) => void;
+  /**
+   * Response cache behavior. Unset means "use" for temperature 0 queries
+   * and "bypass" otherwise.
+   */
+  cache?: CacheMode;
+}
+
+/** use = read and write, bypass = neither, refresh = skip the read but store the fresh answer */
+export type CacheMode = "use" | "bypass" | "refresh";
+
+/** Snapshot of a streaming response, passed to QueryOptions.onProgress */
+export interface QueryProgress {
+  model: string;
+  /** Visible text received so far */
+  content: string;
+  /** Completion tokens so far (backend count when reported, else chunks received) */
+  completion_tokens: number;
 }
 
 export interface QueryResponse {
   model: string;
+  /** Routing key of the backend that answered ("cliproxy", "ollama", ...), set by MultiProvider */
+  provider?: string;
   content: string;
+  /** Tool calls the model made instead of (or along with) answering */
+  tool_calls?: ToolCall[];
   /** Chain-of-thought from reasoning/thinking models (if available) */
   reasoning_content?: string;
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    /** Prompt tokens served from the backend's prompt cache (included in prompt_tokens) */
+    cache_read_tokens?: number;
+    /** Prompt tokens written to the backend's prompt cache (included in prompt_tokens) */
+    cache_write_tokens?: number;
+    /** Completion tokens spent on thinking (included in completion_tokens) */
+    reasoning_tokens?: number;
   };
   latency_ms: number;
   finish_reason?: string;
+  /** The stop sequence that ended generation, when the backend reports it */
+  stop_sequence?: string;
   warning?: string;
   /** Set when a fallback model served this response instead of the requested one */
   fallback_from?: string;
+  /** Set when served from the response cache: when the original answer was stored (epoch ms) */
+  cached_at?: number;
 }
 
 export interface Provider {
   /** Human-readable name for this backend */
   name: string;
 
+  /** Forwards QueryOptions.tools and tool turns; MultiProvider refuses them for backends without it */
+  supportsTools?: boolean;
+
   /** Check if the backend is reachable */
   healthCheck(): Promise<boolean>;
 
   /** List all available models */
   listModels(): Promise<ModelInfo[]>;
 
-  /** Send a prompt to a specific model and get a response */
-  query(model: string, prompt: string, options?: QueryOptions): Promise<QueryResponse>;
+  /**
+   * Send a prompt (or message history) to a specific model and get a response.
+   * options.system_prompt is prepended unless the history already opens with a system turn.
+   */
+  query(model: string, prompt: QueryInput, options?: QueryOptions): Promise<QueryResponse>;
 }
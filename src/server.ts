@@ -3,25 +3,87 @@
  *
  * Architecture:
  * 1. MCP SDK handles the JSON-RPC protocol over stdio
- * 2. We register 5 tools: list_models, ask_model, compare_models, consensus, synthesize
+ * 2. We register 11 tools: list_models, ask_model, chat, chat_sessions,
+ *    compare_models, consensus, synthesize, debate, usage_report,
+ *    provider_health, run_eval
  * 3. Each tool validates input with Zod, calls the provider, formats output
  * 4. The provider is injected — today it's CLIProxyAPI, tomorrow it could be anything
+ * 5. Every model-querying call runs through the session's cost ledger,
+ *    which also feeds the persistent usage log when one is configured
  */
 
+import { join } from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { Provider } from "./providers/provider.js";
 import { askModelSchema, askModel } from "./tools/ask-model.js";
+import { chatSchema, chat } from "./tools/chat.js";
+import { chatSessionsSchema, chatSessions } from "./tools/chat-sessions.js";
 import { compareModelsSchema, compareModels } from "./tools/compare-models.js";
 import { consensusSchema, consensus } from "./tools/consensus.js";
 import { synthesizeSchema, synthesize } from "./tools/synthesize.js";
+import { debateSchema, debate } from "./tools/debate.js";
+import { usageReportSchema, usageReport } from "./tools/usage-report.js";
+import { providerHealthSchema, providerHealth } from "./tools/provider-health.js";
+import { runEvalSchema, runEval } from "./tools/run-eval.js";
+import { MultiProvider } from "./providers/multi-provider.js";
+import { resolveAlias } from "./utils/model-aliases.js";
+import { AutoRouter, formatRouting, isAutoModel } from "./utils/auto-router.js";
+import { getConfig } from "./utils/config.js";
 import { logger } from "./utils/logger.js";
+import { createProgressReporter } from "./utils/progress.js";
+import { ChatSessionStore } from "./utils/chat-sessions.js";
+import { CostLedger } from "./utils/cost-ledger.js";
+import { UsageStore } from "./utils/usage-store.js";
+import { ModelWeights } from "./utils/model-weights.js";
+import { EvalRunStore } from "./utils/eval-runs.js";
+import { FileScope } from "./utils/file-access.js";
 
-export function createServer(provider: Provider): McpServer {
+export function createServer(
+  provider: Provider,
+  options?: {
+    usage?: UsageStore;
+    multi?: MultiProvider;
+    weights?: ModelWeights;
+    /** Where path inputs may read from; unset means anywhere (stdio) */
+    files?: { images?: FileScope; evals?: FileScope };
+  }
+): McpServer {
   const server = new McpServer({
     name: "HydraMCP",
     version: "0.1.0",
   });
 
+  const sessions = new ChatSessionStore();
+  const usage = options?.usage;
+  const ledger = new CostLedger({ usage });
+  const router = options?.multi ? new AutoRouter(options.multi) : undefined;
+  const weights = options?.weights ?? new ModelWeights();
+  const imageFiles = options?.files?.images;
+  const evalFiles = options?.files?.evals;
+
+  /**
+   * Run a tool body against a metered provider and append the cost footer.
+   * Fan-out tools are refused up front once the hard budget is spent.
+   */
+  async function metered(
+    tool: string,
+    fanOut: boolean,
+    run: (metered: Provider) => Promise<string>
+  ): Promise<string> {
+    if (fanOut) ledger.assertCanFanOut(tool);
+    const call = ledger.startCall(tool);
+    const text = await run(call.provider(provider));
+    return text + ledger.formatFooter(call);
+  }
+
+  /** Swap "auto" / "auto:N" for routed models; the explanation goes on top of the result */
+  async function autoRoute(models: string[], prompt: string): Promise<{ models: string[]; note: string }> {
+    if (!models.some(isAutoModel)) return { models, note: "" };
+    if (!router) throw new Error("auto routing is not available for this provider setup");
+    const { models: routed, decision } = await router.resolve(models, prompt);
+    return { models: routed, note: decision ? formatRouting(decision) : "" };
+  }
+
   // --- list_models ---
   server.tool(
     "list_models",
@@ -59,6 +121,8 @@ export function createServer(provider: Provider): McpServer {
           lines.push("");
         }
 
+        lines.push(...formatAliases(models.map((m) => m.id)));
+
         return { content: [{ type: "text" as const, text: lines.join("\n") }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -74,13 +138,16 @@ export function createServer(provider: Provider): McpServer {
   // --- ask_model ---
   server.tool(
     "ask_model",
-    "Query any AI model with a prompt. Returns the model's response with metadata.",
+    "Query any AI model with a prompt (plus optional images for vision models). Returns the model's response with metadata. With tools, returns the calls the model proposes (never executed).",
     askModelSchema.shape,
-    async (input) => {
+    async (input, extra) => {
       logger.info(`ask_model: querying ${input.model}`);
       try {
-        const result = await askModel(provider, input);
-        return { content: [{ type: "text" as const, text: result }] };
+        const routed = await autoRoute([input.model], input.prompt);
+        const result = await metered("ask_model", false, (p) =>
+          askModel(p, { ...input, model: routed.models[0] }, createProgressReporter(extra), imageFiles)
+        );
+        return { content: [{ type: "text" as const, text: routed.note + result }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`ask_model failed: ${message}`);
@@ -92,16 +159,63 @@ export function createServer(provider: Provider): McpServer {
     }
   );
 
+  // --- chat ---
+  server.tool(
+    "chat",
+    "Multi-turn conversation with any model. Omit session_id to start a new session; pass it back to continue with full history.",
+    chatSchema.shape,
+    async (input, extra) => {
+      logger.info(`chat: ${input.session_id ? `session ${input.session_id}` : `new session with ${input.model}`}`);
+      try {
+        const result = await metered("chat", false, (p) =>
+          chat(p, sessions, input, createProgressReporter(extra))
+        );
+        return { content: [{ type: "text" as const, text: result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`chat failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // --- chat_sessions ---
+  server.tool(
+    "chat_sessions",
+    "List, fork or clear the conversation sessions created by the chat tool.",
+    chatSessionsSchema.shape,
+    async (input) => {
+      logger.info(`chat_sessions: ${input.action}`);
+      try {
+        const result = chatSessions(sessions, input);
+        return { content: [{ type: "text" as const, text: result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`chat_sessions failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // --- compare_models ---
   server.tool(
     "compare_models",
-    "Query 2-5 models in parallel with the same prompt. Returns side-by-side comparison with latency and token metrics.",
+    "Query 2-5 models in parallel with the same prompt (and optional images). Returns side-by-side comparison with latency and token metrics.",
     compareModelsSchema.shape,
-    async (input) => {
+    async (input, extra) => {
       logger.info(`compare_models: querying ${input.models.join(", ")}`);
       try {
-        const result = await compareModels(provider, input);
-        return { content: [{ type: "text" as const, text: result }] };
+        const routed = await autoRoute(input.models, input.prompt);
+        const result = await metered("compare_models", true, (p) =>
+          compareModels(p, { ...input, models: routed.models }, createProgressReporter(extra), imageFiles)
+        );
+        return { content: [{ type: "text" as const, text: routed.note + result }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`compare_models failed: ${message}`);
@@ -116,15 +230,18 @@ export function createServer(provider: Provider): McpServer {
   // --- consensus ---
   server.tool(
     "consensus",
-    "Query 3-7 models and aggregate responses using voting strategy (majority/supermajority/unanimous). Returns consensus answer with confidence score.",
+    "Query 3-7 models and aggregate responses using voting strategy (majority/supermajority/unanimous/weighted). Returns consensus answer with confidence score.",
     consensusSchema.shape,
-    async (input) => {
+    async (input, extra) => {
       logger.info(
         `consensus: polling ${input.models.length} models (${input.strategy})`
       );
       try {
-        const result = await consensus(provider, input);
-        return { content: [{ type: "text" as const, text: result }] };
+        const routed = await autoRoute(input.models, input.prompt);
+        const result = await metered("consensus", true, (p) =>
+          consensus(p, { ...input, models: routed.models }, createProgressReporter(extra), weights)
+        );
+        return { content: [{ type: "text" as const, text: routed.note + result }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`consensus failed: ${message}`);
@@ -141,13 +258,16 @@ export function createServer(provider: Provider): McpServer {
     "synthesize",
     "Query 2-5 models in parallel, then combine their best ideas into one answer. Returns a synthesized response that's better than any single model.",
     synthesizeSchema.shape,
-    async (input) => {
+    async (input, extra) => {
       logger.info(
         `synthesize: querying ${input.models.length} models, synthesizer: ${input.synthesizer_model ?? "auto"}`
       );
       try {
-        const result = await synthesize(provider, input);
-        return { content: [{ type: "text" as const, text: result }] };
+        const routed = await autoRoute(input.models, input.prompt);
+        const result = await metered("synthesize", true, (p) =>
+          synthesize(p, { ...input, models: routed.models }, createProgressReporter(extra), imageFiles)
+        );
+        return { content: [{ type: "text" as const, text: routed.note + result }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`synthesize failed: ${message}`);
@@ -159,6 +279,135 @@ export function createServer(provider: Provider): McpServer {
     }
   );
 
+  // --- debate ---
+  server.tool(
+    "debate",
+    "Run a multi-round debate between 2-5 models: each round every model sees the others' answers and revises or rebuts. Optional moderator writes a verdict. Shows who changed their mind.",
+    debateSchema.shape,
+    async (input, extra) => {
+      logger.info(`debate: ${input.models.join(", ")}, ${input.rounds} rounds`);
+      try {
+        const routed = await autoRoute(input.models, input.prompt);
+        const result = await metered("debate", true, (p) =>
+          debate(p, { ...input, models: routed.models }, createProgressReporter(extra))
+        );
+        return { content: [{ type: "text" as const, text: routed.note + result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`debate failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // --- usage_report ---
+  server.tool(
+    "usage_report",
+    "Summarize past queries from the persistent usage log, grouped by day, model or tool. Shows query counts, error rates, latency, tokens, fallbacks and cost.",
+    usageReportSchema.shape,
+    async (input) => {
+      logger.info(`usage_report: by ${input.group_by}, last ${input.since_days} days`);
+      try {
+        if (!usage) {
+          throw new Error("The usage log is disabled. Set usage_log.enabled in hydra.config.json and restart.");
+        }
+        const result = await usageReport(usage, input);
+        return { content: [{ type: "text" as const, text: result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`usage_report failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // --- provider_health ---
+  server.tool(
+    "provider_health",
+    "Show backend reachability and per-model circuit breaker state, failure rate, cooldown and fallback chain. Also resets or force-opens a model's circuit.",
+    providerHealthSchema.shape,
+    async (input) => {
+      logger.info(`provider_health: ${input.action}${input.model ? ` ${input.model}` : ""}`);
+      try {
+        if (!options?.multi) {
+          throw new Error("Provider health is not available for this provider setup.");
+        }
+        const result = await providerHealth(options.multi, input);
+        return { content: [{ type: "text" as const, text: result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`provider_health failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // --- run_eval ---
+  server.tool(
+    "run_eval",
+    "Run a JSONL eval suite (prompts with expected answers or exact/regex/JSON-schema/judge graders) across models. Saves per-item results and returns a leaderboard, diffed against the previous run to catch regressions.",
+    runEvalSchema.shape,
+    async (input) => {
+      logger.info(`run_eval: ${input.suite} on ${input.models.join(", ")}`);
+      try {
+        const store = new EvalRunStore(join(getConfig().data_dir, "evals"));
+        const result = await metered("run_eval", true, (p) => runEval(p, store, input, evalFiles));
+        return { content: [{ type: "text" as const, text: result }] };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`run_eval failed: ${message}`);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   logger.info(`HydraMCP server created with provider: ${provider.name}`);
   return server;
 }
+
+/**
+ * Aliases and groups for list_models, with what each alias resolves to
+ * right now. Targets no provider listed are flagged so stale aliases stand out.
+ */
+function formatAliases(available: string[]): string[] {
+  const { aliases, groups } = getConfig();
+  const lines: string[] = [];
+
+  const isAvailable = (model: string) =>
+    available.some((id) => id === model || id.endsWith(`/${model}`));
+  const describe = (model: string) => {
+    const resolved = resolveAlias(model);
+    const arrow = resolved !== model ? ` → \`${resolved}\`` : "";
+    return `\`${model}\`${arrow}${isAvailable(resolved) ? "" : " *(not available)*"}`;
+  };
+
+  if (Object.keys(aliases).length > 0) {
+    lines.push("### Aliases");
+    for (const alias of Object.keys(aliases).sort()) {
+      lines.push(`- ${describe(alias)}`);
+    }
+    lines.push("");
+  }
+
+  if (Object.keys(groups).length > 0) {
+    lines.push("### Groups");
+    for (const [name, members] of Object.entries(groups)) {
+      lines.push(`- \`@${name}\`: ${members.map(describe).join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
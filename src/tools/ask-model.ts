@@ -11,14 +11,37 @@
  *   runaway responses from eating context
  * - We return structured metadata (latency, tokens) so Claude Code
  *   can reason about cost/performance
+ * - images attach screenshots/diagrams (file path or base64) for
+ *   vision models; a text-only model fails with a clear error
+ * - response_schema returns validated JSON instead of free text; the
+ *   model is re-prompted with the validation errors up to max_repairs
+ *   times before the call fails
+ * - tools are passed through, never run: the model's calls come back as
+ *   a JSON block, and the caller sends results in a follow-up call with
+ *   the same prompt plus tool_calls and tool_results
  */
 
 import { z } from "zod";
-import { Provider, QueryResponse } from "../providers/provider.js";
+import { Provider, QueryResponse, ToolCall } from "../providers/provider.js";
+import { ProgressCallback } from "../utils/progress.js";
+import { describeCacheAge } from "../utils/response-cache.js";
+import { imagesSchema, loadImages, withImages } from "../utils/images.js";
+import { FileScope } from "../utils/file-access.js";
+import { DEFAULT_MAX_REPAIRS, queryStructured } from "../utils/structured-output.js";
+import {
+  toolCallsSchema,
+  toolChoiceSchema,
+  toolConversation,
+  toolResultsSchema,
+  toolsSchema,
+} from "../utils/tool-calls.js";
 
 export const askModelSchema = z.object({
-  model: z.string().describe("Model ID to query (e.g. 'gpt-4o', 'gemini-2.5-pro')"),
+  model: z
+    .string()
+    .describe("Model ID to query (e.g. 'gpt-4o', 'gemini-2.5-pro'), or 'auto' to let HydraMCP pick based on the prompt and model health"),
   prompt: z.string().describe("The prompt to send to the model"),
+  images: imagesSchema,
   system_prompt: z
     .string()
     .optional()
@@ -36,59 +59,159 @@ export const askModelSchema = z.object({
     .optional()
     .default(1024)
     .describe("Maximum tokens in response (default: 1024)"),
+  stop_sequences: z
+    .array(z.string())
+    .optional()
+    .describe("Stop generating when the model produces any of these strings"),
+  thinking_budget: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Token budget for extended thinking (honored by the native anthropic/ and gemini/ backends). 0 turns thinking off where the model allows it."),
+  response_schema: z
+    .record(z.unknown())
+    .optional()
+    .describe("JSON Schema the answer must match. The answer is validated and returned as a JSON block; native JSON mode is used where the backend has one"),
+  max_repairs: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .optional()
+    .default(DEFAULT_MAX_REPAIRS)
+    .describe(`With response_schema: how many times to re-prompt with the validation errors (default: ${DEFAULT_MAX_REPAIRS})`),
+  tools: toolsSchema,
+  tool_choice: toolChoiceSchema,
+  tool_calls: toolCallsSchema,
+  tool_results: toolResultsSchema,
   format: z
     .enum(["brief", "detailed"])
     .optional()
     .default("detailed")
     .describe("Response format — 'brief' for token-efficient summary, 'detailed' for full response"),
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe("Response cache — 'use' reads/writes (default for temperature 0), 'bypass' skips it, 'refresh' re-queries and overwrites"),
 });
 
 export type AskModelInput = z.infer<typeof askModelSchema>;
 
 export async function askModel(
   provider: Provider,
-  input: AskModelInput
+  input: AskModelInput,
+  onProgress?: ProgressCallback,
+  imageFiles?: FileScope
 ): Promise<string> {
-  const response = await provider.query(input.model, input.prompt, {
+  if (input.response_schema && input.tools) {
+    throw new Error("response_schema and tools can't be combined — the model would have to answer and call tools at once");
+  }
+
+  const images = await loadImages(input.images, imageFiles);
+  const toolCalls = input.tool_calls?.map((c): ToolCall => ({ id: c.id, name: c.name, arguments: c.arguments }));
+  const prompt = toolConversation(withImages(input.prompt, images), toolCalls, input.tool_results);
+
+  // Stream only when someone is listening for progress
+  const options = {
     system_prompt: input.system_prompt,
     temperature: input.temperature,
     max_tokens: input.max_tokens,
-  });
+    stop_sequences: input.stop_sequences,
+    thinking_budget: input.thinking_budget,
+    tools: input.tools,
+    tool_choice: input.tool_choice,
+    cache: input.cache,
+    stream: onProgress !== undefined,
+    onProgress,
+  };
 
+  if (input.response_schema) {
+    const result = await queryStructured(
+      provider, input.model, prompt, input.response_schema, options, input.max_repairs ?? DEFAULT_MAX_REPAIRS
+    );
+    const response: QueryResponse = {
+      ...result.response,
+      content: `\`\`\`json\n${JSON.stringify(result.value, null, 2)}\n\`\`\``,
+      latency_ms: result.latency_ms,
+    };
+    return formatResponse(response, input.format ?? "detailed", result.repairs);
+  }
+
+  const response = await provider.query(input.model, prompt, options);
   return formatResponse(response, input.format ?? "detailed");
 }
 
-function formatResponse(response: QueryResponse, format: "brief" | "detailed"): string {
+/** repairs is set for structured answers: how many re-prompts validation took */
+function formatResponse(response: QueryResponse, format: "brief" | "detailed", repairs?: number): string {
+  const cacheNote = response.cached_at !== undefined ? `, ${describeCacheAge(response.cached_at)}` : "";
+
   if (format === "brief") {
     return [
-      `**${response.model}** (${response.latency_ms}ms)`,
+      `**${response.model}** (${response.latency_ms}ms${cacheNote})`,
       "",
-      response.content,
+      ...formatBody(response),
     ].join("\n");
   }
 
   const lines = [
     `## Response from ${response.model}`,
     "",
-    response.content,
+    ...formatBody(response),
     "",
     "---",
     `**Latency:** ${response.latency_ms}ms`,
   ];
 
+  if (repairs !== undefined) {
+    lines.push(`**Schema:** valid${repairs > 0 ? ` after ${repairs} repair${repairs === 1 ? "" : "s"}` : ""}`);
+  }
+
+  if (response.cached_at !== undefined) {
+    lines.push(`**Cache:** ${describeCacheAge(response.cached_at)} — not a fresh answer (pass cache: "refresh" to re-query)`);
+  }
+
   if (response.usage) {
     lines.push(
       `**Tokens:** ${response.usage.prompt_tokens} in → ${response.usage.completion_tokens} out (${response.usage.total_tokens} total)`
     );
+    const { cache_read_tokens, cache_write_tokens, reasoning_tokens } = response.usage;
+    if (reasoning_tokens) {
+      lines.push(`**Thinking tokens:** ${reasoning_tokens} of ${response.usage.completion_tokens} out`);
+    }
+    if (cache_read_tokens || cache_write_tokens) {
+      lines.push(`**Prompt cache:** ${cache_read_tokens ?? 0} read, ${cache_write_tokens ?? 0} written`);
+    }
   }
 
-  if (response.finish_reason && response.finish_reason !== "stop") {
+  // "tool_calls" is the normal way a turn with tool calls ends
+  if (response.finish_reason && response.finish_reason !== "stop" && !response.tool_calls?.length) {
     lines.push(`**Note:** Response ended due to: ${response.finish_reason}`);
   }
 
+  if (response.stop_sequence) {
+    lines.push(`**Stopped at:** \`${response.stop_sequence}\``);
+  }
+
   if (response.reasoning_content) {
     lines.push(`**Reasoning:** Model produced ${response.reasoning_content.length} chars of chain-of-thought`);
   }
 
   return lines.join("\n");
 }
+
+/** The answer text, then any tool calls as JSON the caller can hand straight back in tool_calls */
+function formatBody(response: QueryResponse): string[] {
+  const calls = response.tool_calls;
+  if (!calls?.length) return [response.content];
+  return [
+    ...(response.content ? [response.content, ""] : []),
+    "### Tool Calls",
+    "",
+    "```json",
+    JSON.stringify(calls, null, 2),
+    "```",
+    "",
+    "*Not executed. To continue, call again with the same prompt and tools, these tool_calls, and tool_results: [{ tool_call_id, content }] for each.*",
+  ];
+}
@@ -0,0 +1,75 @@
+/**
+ * chat_sessions — Manage the server-side sessions created by chat.
+ *
+ * Actions:
+ * - list:  every active session with model, turn count and last activity
+ * - fork:  copy a session (optionally only its first N turns) to branch
+ *          the conversation without disturbing the original
+ * - clear: drop one session, or all of them when session_id is omitted
+ */
+
+import { z } from "zod";
+import { ChatSessionStore } from "../utils/chat-sessions.js";
+
+export const chatSessionsSchema = z.object({
+  action: z.enum(["list", "fork", "clear"]).describe("What to do with the sessions"),
+  session_id: z
+    .string()
+    .optional()
+    .describe("Target session. Required for fork; for clear, omit to clear every session."),
+  keep_turns: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("fork only — keep just the first N user/assistant exchanges"),
+});
+
+export type ChatSessionsInput = z.infer<typeof chatSessionsSchema>;
+
+export function chatSessions(sessions: ChatSessionStore, input: ChatSessionsInput): string {
+  switch (input.action) {
+    case "list":
+      return formatSessionList(sessions);
+
+    case "fork": {
+      if (!input.session_id) throw new Error("session_id is required to fork a session");
+      const fork = sessions.fork(input.session_id, input.keep_turns);
+      return `Forked session \`${input.session_id}\` → \`${fork.id}\` (${fork.messages.length / 2} turns, model ${fork.model})`;
+    }
+
+    case "clear": {
+      if (input.session_id) {
+        sessions.delete(input.session_id);
+        return `Cleared session \`${input.session_id}\``;
+      }
+      const count = sessions.clear();
+      return `Cleared ${count} session(s)`;
+    }
+  }
+}
+
+function formatSessionList(sessions: ChatSessionStore): string {
+  const all = sessions.list();
+  if (all.length === 0) {
+    return "No active chat sessions. Start one with the chat tool.";
+  }
+
+  const lines: string[] = [
+    `## Chat Sessions (${all.length})`,
+    "",
+    "| Session | Model | Turns | Last Active | Preview |",
+    "|---------|-------|-------|-------------|---------|",
+  ];
+
+  for (const s of all) {
+    const firstUser = s.messages.find((m) => m.role === "user")?.content ?? "";
+    const preview = firstUser.slice(0, 60).replace(/\n/g, " ").replace(/\|/g, "\\|");
+    const fork = s.forkedFrom ? ` (fork of ${s.forkedFrom})` : "";
+    lines.push(
+      `| \`${s.id}\`${fork} | ${s.model} | ${s.messages.length / 2} | ${new Date(s.updatedAt).toISOString()} | ${preview}${firstUser.length > 60 ? "..." : ""} |`
+    );
+  }
+
+  return lines.join("\n");
+}
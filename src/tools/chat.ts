@@ -0,0 +1,122 @@
+/**
+ * chat — Multi-turn conversation with any model.
+ *
+ * ask_model is stateless: every call starts from scratch. chat keeps the
+ * history server-side under a session ID, so follow-ups ("now make it
+ * async", "what about the edge case?") land with full context.
+ *
+ * Design decisions:
+ * - Omit session_id to start a new session; the ID comes back in the output
+ * - The model is remembered per session, but can be switched mid-conversation
+ *   by passing model again — the new model sees the whole history
+ * - A turn is only recorded once the model answers, so a failed query
+ *   never leaves a dangling user message in the history, and a new
+ *   session only exists once its first turn succeeded
+ * - Turns on the same session are queued, never run side by side
+ */
+
+import { z } from "zod";
+import { ChatMessage, Provider, QueryResponse } from "../providers/provider.js";
+import { ChatSession, ChatSessionStore } from "../utils/chat-sessions.js";
+import { ProgressCallback } from "../utils/progress.js";
+
+export const chatSchema = z.object({
+  message: z.string().describe("Your next message in the conversation"),
+  session_id: z
+    .string()
+    .optional()
+    .describe("Session to continue. Omit to start a new conversation."),
+  model: z
+    .string()
+    .optional()
+    .describe("Model ID. Required for a new session; on an existing one, switches the model for this and later turns."),
+  system_prompt: z
+    .string()
+    .optional()
+    .describe("System prompt for a new session (ignored when continuing one)"),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional().default(1024),
+  format: z
+    .enum(["brief", "detailed"])
+    .optional()
+    .default("detailed")
+    .describe("Response format — 'brief' for token-efficient summary, 'detailed' for full response"),
+});
+
+export type ChatInput = z.infer<typeof chatSchema>;
+
+export async function chat(
+  provider: Provider,
+  sessions: ChatSessionStore,
+  input: ChatInput,
+  onProgress?: ProgressCallback
+): Promise<string> {
+  const userMessage: ChatMessage = { role: "user", content: input.message };
+  const ask = (model: string, history: ChatMessage[], systemPrompt: string | undefined) =>
+    provider.query(model, [...history, userMessage], {
+      system_prompt: systemPrompt,
+      temperature: input.temperature,
+      max_tokens: input.max_tokens,
+      stream: onProgress !== undefined,
+      onProgress,
+    });
+
+  if (!input.session_id) {
+    if (!input.model) {
+      throw new Error("model is required when starting a new chat session");
+    }
+    const response = await ask(input.model, [], input.system_prompt);
+    const session = sessions.create(input.model, input.system_prompt);
+    sessions.append(session.id, userMessage, { role: "assistant", content: response.content }, input.model);
+    return formatChatResponse(session, response, input.format ?? "detailed");
+  }
+
+  const id = input.session_id;
+  sessions.get(id); // fail fast on an unknown ID instead of after queueing
+  return sessions.exclusive(id, async () => {
+    const session = sessions.get(id);
+    const model = input.model ?? session.model;
+    const response = await ask(model, session.messages, session.system_prompt);
+    sessions.append(session.id, userMessage, { role: "assistant", content: response.content }, model);
+    return formatChatResponse(session, response, input.format ?? "detailed");
+  });
+}
+
+function formatChatResponse(
+  session: ChatSession,
+  response: QueryResponse,
+  format: "brief" | "detailed"
+): string {
+  const turns = session.messages.length / 2;
+
+  if (format === "brief") {
+    return [
+      `**${response.model}** (session \`${session.id}\`, turn ${turns}, ${response.latency_ms}ms)`,
+      "",
+      response.content,
+    ].join("\n");
+  }
+
+  const lines = [
+    `## ${response.model} — session \`${session.id}\` (turn ${turns})`,
+    "",
+    response.content,
+    "",
+    "---",
+    `**Latency:** ${response.latency_ms}ms`,
+  ];
+
+  if (response.usage) {
+    lines.push(
+      `**Tokens:** ${response.usage.prompt_tokens} in → ${response.usage.completion_tokens} out (${response.usage.total_tokens} total)`
+    );
+  }
+
+  if (response.finish_reason && response.finish_reason !== "stop") {
+    lines.push(`**Note:** Response ended due to: ${response.finish_reason}`);
+  }
+
+  lines.push(`*Continue with session_id \`${session.id}\`*`);
+
+  return lines.join("\n");
+}
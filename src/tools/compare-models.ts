@@ -10,19 +10,37 @@
  *
  * Graceful degradation: if 1 of 5 models fails, we return 4 results
  * plus an error note. We never fail the whole comparison because
- * one model had a bad day.
+ * one model had a bad day. The same goes for images: a model that can't
+ * read them gets its own error row while the vision models answer.
+ *
+ * With score_with, a judge model scores every answer on a rubric
+ * (correctness, completeness, concision by default), blind to which
+ * model wrote which. The table gains per-criterion scores and a rank,
+ * and each model gets a one-line justification. If the judge fails or
+ * scores everything the same, you get the plain comparison back.
  */
 
 import { z } from "zod";
-import { Provider, QueryResponse } from "../providers/provider.js";
+import { CacheMode, Provider, QueryResponse } from "../providers/provider.js";
+import { ProgressCallback } from "../utils/progress.js";
+import { expandModels, resolveAlias } from "../utils/model-aliases.js";
+import { describeCacheAge } from "../utils/response-cache.js";
+import { imagesSchema, loadImages, withImages } from "../utils/images.js";
+import { FileScope } from "../utils/file-access.js";
+import { costOf, formatCost } from "../utils/pricing.js";
+import { queryStructured, StructuredOutputError } from "../utils/structured-output.js";
+import { logger } from "../utils/logger.js";
+
+const DEFAULT_RUBRIC = ["correctness", "completeness", "concision"];
 
 export const compareModelsSchema = z.object({
   models: z
     .array(z.string())
-    .min(2)
+    .min(1)
     .max(5)
-    .describe("List of model IDs to compare (2-5 models)"),
+    .describe("List of model IDs to compare (2-5 models). Aliases work, \"@group\" expands to the group's models, and \"auto:N\" adds N auto-picked models."),
   prompt: z.string().describe("The prompt to send to all models"),
+  images: imagesSchema,
   system_prompt: z.string().optional().describe("Optional system prompt for all models"),
   format: z
     .enum(["brief", "detailed"])
@@ -31,6 +49,20 @@ export const compareModelsSchema = z.object({
     .describe("Response format — 'brief' for token-efficient summary, 'detailed' for full response"),
   temperature: z.number().min(0).max(2).optional(),
   max_tokens: z.number().int().positive().optional().default(1024),
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe("Response cache — 'use' reads/writes (default for temperature 0), 'bypass' skips it, 'refresh' re-queries and overwrites"),
+  score_with: z
+    .string()
+    .optional()
+    .describe("Judge model that scores and ranks the answers on the rubric"),
+  rubric: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(6)
+    .optional()
+    .describe("Scoring criteria for score_with (default: correctness, completeness, concision)"),
 });
 
 export type CompareModelsInput = z.infer<typeof compareModelsSchema>;
@@ -40,22 +72,58 @@ interface CompareResult {
   content: string;
   latency_ms: number;
   tokens?: number;
+  cached_at?: number;
+  /** USD, undefined when the model has no configured price */
+  cost?: number;
   error?: string;
 }
 
+interface Score {
+  /** Mean of the criterion scores, 1-10 */
+  total: number;
+  criteria: Record<string, number>;
+  justification: string;
+  rank: number;
+}
+
+/** One entry of the judge's reply, after schema validation */
+interface ScoreEntry {
+  response: number;
+  criteria: Record<string, number>;
+  justification: string;
+}
+
+interface Scoring {
+  judge: string;
+  latency_ms: number;
+  rubric: string[];
+  /** By model; empty when scoring failed or everything tied */
+  scores: Map<string, Score>;
+  /** Why there's no ranking */
+  note?: string;
+}
+
 export async function compareModels(
   provider: Provider,
-  input: CompareModelsInput
+  input: CompareModelsInput,
+  onProgress?: ProgressCallback,
+  imageFiles?: FileScope
 ): Promise<string> {
+  const models = expandModels(input.models, 2, 5);
+  const prompt = withImages(input.prompt, await loadImages(input.images, imageFiles));
+
   const startTime = Date.now();
 
   // Fan out to all models in parallel
   const results = await Promise.allSettled(
-    input.models.map((model) =>
-      provider.query(model, input.prompt, {
+    models.map((model) =>
+      provider.query(model, prompt, {
         system_prompt: input.system_prompt,
         temperature: input.temperature,
         max_tokens: input.max_tokens,
+        cache: input.cache,
+        stream: onProgress !== undefined,
+        onProgress,
       })
     )
   );
@@ -64,14 +132,16 @@ export async function compareModels(
   const compared: CompareResult[] = results.map((result, i) => {
     if (result.status === "fulfilled") {
       return {
-        model: input.models[i],
+        model: models[i],
         content: result.value.content,
         latency_ms: result.value.latency_ms,
         tokens: result.value.usage?.total_tokens,
+        cached_at: result.value.cached_at,
+        cost: costOf(models[i], result.value),
       };
     } else {
       return {
-        model: input.models[i],
+        model: models[i],
         content: "",
         latency_ms: 0,
         error:
@@ -82,12 +152,133 @@ export async function compareModels(
     }
   });
 
+  let scoring: Scoring | undefined;
+  const successful = compared.filter((r) => !r.error);
+  if (input.score_with && successful.length >= 2) {
+    scoring = await scoreAnswers(provider, input.score_with, input.prompt, successful, input.rubric ?? DEFAULT_RUBRIC, input.cache);
+  }
+
   const totalTime = Date.now() - startTime;
-  return formatComparison(compared, totalTime, input.format ?? "detailed");
+  return formatComparison(compared, totalTime, input.format ?? "detailed", scoring);
+}
+
+/**
+ * Have the judge score each answer on every criterion. Answers are
+ * labeled by number only so the judge can't favor a model by name.
+ * Never throws; a failure comes back as a Scoring with a note.
+ */
+async function scoreAnswers(
+  provider: Provider,
+  judge: string,
+  question: string,
+  answers: CompareResult[],
+  rubric: string[],
+  cache?: CacheMode
+): Promise<Scoring> {
+  const start = Date.now();
+  const failed = (note: string): Scoring => {
+    logger.warn(`compare_models: scoring with ${judge} failed: ${note}`);
+    return { judge, latency_ms: Date.now() - start, rubric, scores: new Map(), note };
+  };
+
+  const responseSummary = answers
+    .map((a, i) => `Response ${i + 1}:\n${a.content}`)
+    .join("\n\n---\n\n");
+  const example = Object.fromEntries(rubric.map((c) => [c, 7]));
+
+  const judgePrompt = `You are grading ${answers.length} answers to the same question.
+
+Question: "${question}"
+
+${responseSummary}
+
+Score every response from 1 (poor) to 10 (excellent) on each criterion: ${rubric.join(", ")}. Judge substance, not length or style, unless a criterion says otherwise.
+
+Example: {"scores": [{"response": 1, "criteria": ${JSON.stringify(example)}, "justification": "one short sentence"}]}
+
+Include one entry per response, numbered as above.`;
+
+  const criterion = { type: "number", minimum: 1, maximum: 10 };
+  const schema = {
+    type: "object",
+    required: ["scores"],
+    properties: {
+      scores: {
+        type: "array",
+        minItems: answers.length,
+        maxItems: answers.length,
+        items: {
+          type: "object",
+          required: ["response", "criteria", "justification"],
+          properties: {
+            response: { type: "integer", minimum: 1, maximum: answers.length },
+            criteria: {
+              type: "object",
+              required: rubric,
+              properties: Object.fromEntries(rubric.map((c) => [c, criterion])),
+            },
+            justification: { type: "string" },
+          },
+        },
+      },
+    },
+  };
+
+  let entries: ScoreEntry[];
+  try {
+    const { value } = await queryStructured(provider, judge, judgePrompt, schema, {
+      temperature: 0,
+      max_tokens: 1024,
+      cache,
+    });
+    entries = (value as { scores: ScoreEntry[] }).scores;
+  } catch (err) {
+    if (err instanceof StructuredOutputError) return failed(`the judge's scores didn't match the format (${err.errors[0]})`);
+    return failed(err instanceof Error ? err.message : String(err));
+  }
+
+  const scores = new Map<string, Score>();
+  for (const entry of entries) {
+    const answer = answers[entry.response - 1];
+    if (scores.has(answer.model)) continue;
+    const criteria = Object.fromEntries(rubric.map((c) => [c, entry.criteria[c]]));
+    scores.set(answer.model, {
+      total: rubric.reduce((sum, c) => sum + criteria[c], 0) / rubric.length,
+      criteria,
+      justification: entry.justification.trim(),
+      rank: 0,
+    });
+  }
+
+  // Right count, but a response scored twice means another wasn't scored at all
+  if (scores.size < answers.length) {
+    return failed(`the judge scored ${scores.size} of ${answers.length} answers`);
+  }
+
+  // Equal totals share a rank (1, 2, 2, 4)
+  const totals = [...scores.values()].map((s) => s.total);
+  for (const score of scores.values()) {
+    score.rank = 1 + totals.filter((t) => t > score.total).length;
+  }
+  if (totals.every((t) => t === totals[0])) {
+    return { judge, latency_ms: Date.now() - start, rubric, scores: new Map(), note: "the judge scored every answer the same" };
+  }
+
+  return { judge, latency_ms: Date.now() - start, rubric, scores };
 }
 
-function formatComparison(results: CompareResult[], totalTime: number, format: string): string {
-  const successful = results.filter((r) => !r.error);
+function formatComparison(
+  results: CompareResult[],
+  totalTime: number,
+  format: string,
+  scoring?: Scoring
+): string {
+  const scores = scoring?.scores ?? new Map<string, Score>();
+  const ranked = scores.size > 0;
+  // Best first when ranked; stable, so ties keep the requested order
+  const successful = results
+    .filter((r) => !r.error)
+    .sort((a, b) => (ranked ? scores.get(a.model)!.rank - scores.get(b.model)!.rank : 0));
   const failed = results.filter((r) => r.error);
 
   const lines: string[] = [
@@ -95,23 +286,54 @@ function formatComparison(results: CompareResult[], totalTime: number, format: s
     "",
   ];
 
+  if (scoring) {
+    lines.push(
+      ranked
+        ? `**Judge:** ${scoring.judge} (${scoring.latency_ms}ms), scored 1-10 on ${scoring.rubric.join(", ")}`
+        : `*No ranking from ${scoring.judge}: ${scoring.note}.*`
+    );
+    lines.push("");
+  }
+
   // Summary table
   if (successful.length > 0) {
-    const fastest = successful.reduce((a, b) =>
-      a.latency_ms < b.latency_ms ? a : b
-    );
+    // Cache hits would always "win" on latency, so only fresh answers compete
+    const fresh = successful.filter((r) => r.cached_at === undefined);
+    const fastest = fresh.length > 0
+      ? fresh.reduce((a, b) => (a.latency_ms < b.latency_ms ? a : b))
+      : undefined;
 
-    lines.push("| Model | Latency | Tokens |");
-    lines.push("|-------|---------|--------|");
+    // Only show the cost column when pricing is configured for something
+    const showCost = successful.some((r) => r.cost !== undefined);
+    const rubric = ranked ? scoring!.rubric : [];
+    const scoreHeader = ranked ? ` Rank | Score | ${rubric.join(" | ")} |` : "";
+    const scoreRule = ranked ? `------|-------|${rubric.map(() => "---").join("|")}|` : "";
+    lines.push(`| Model |${scoreHeader} Latency | Tokens |${showCost ? " Cost |" : ""}`);
+    lines.push(`|-------|${scoreRule}---------|--------|${showCost ? "------|" : ""}`);
     for (const r of successful) {
-      const badge = r.model === fastest.model ? " fastest" : "";
+      const badge = r.cached_at !== undefined
+        ? ` (${describeCacheAge(r.cached_at)})`
+        : r.model === fastest?.model ? " fastest" : "";
+      const score = scores.get(r.model);
+      const scoreCells = score
+        ? ` ${score.rank} | ${score.total.toFixed(1)} | ${rubric.map((c) => score.criteria[c]).join(" | ")} |`
+        : "";
       lines.push(
-        `| ${r.model} | ${r.latency_ms}ms${badge} | ${r.tokens ?? "n/a"} |`
+        `| ${r.model} |${scoreCells} ${r.latency_ms}ms${badge} | ${r.tokens ?? "n/a"} |${showCost ? ` ${formatCost(r.cost)} |` : ""}`
       );
     }
     lines.push("");
   }
 
+  if (ranked) {
+    lines.push("### Judge Notes");
+    for (const r of successful) {
+      const score = scores.get(r.model)!;
+      lines.push(`- **${r.model}** (#${score.rank}, ${score.total.toFixed(1)}): ${score.justification || "no justification given"}`);
+    }
+    lines.push("");
+  }
+
   // Each model's response (brief = first 200 chars, detailed = full)
   for (const r of successful) {
     lines.push(`### ${r.model}`);
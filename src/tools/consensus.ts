@@ -8,6 +8,9 @@
  * - majority:     >50% of models agree
  * - supermajority: >=66% agree (for higher confidence)
  * - unanimous:     100% agree (for critical decisions)
+ * - weighted:      agreeing models hold >=50% of the total vote weight.
+ *                  Weights come from config or are learned from how often
+ *                  each model sided with the majority before (model-weights.ts)
  *
  * How "agreement" works:
  * We use a judge model to evaluate whether responses agree semantically.
@@ -17,60 +20,125 @@
  * understands that "start with a monolith" and "monolith, it's simpler"
  * are the same answer.
  *
+ * One judge can be wrong, so `judges` takes a panel instead. Each judge
+ * groups the responses on its own, responses end up together when most
+ * judges put them together, and the panel reports how often the judges
+ * agreed with each other. Below min_judge_agreement the result is marked
+ * UNRELIABLE rather than REACHED / NOT REACHED.
+ *
+ * The judge's grouping comes back through queryStructured, so a reply that
+ * isn't valid JSON gets re-prompted with what was wrong before we give up.
  * Falls back to naive keyword matching if the judge call fails.
+ *
+ * For questions with a checkable answer (multiple choice, a number, yes/no,
+ * a JSON field), answer_format skips the judge entirely: every model is told
+ * to end with a parseable final answer, and identical answers are counted.
  */
 
 import { z } from "zod";
-import { Provider } from "../providers/provider.js";
+import { CacheMode, Provider, QueryInput, QueryOptions } from "../providers/provider.js";
+import { ProgressCallback } from "../utils/progress.js";
+import { expandModels, resolveAlias } from "../utils/model-aliases.js";
+import { describeCacheAge } from "../utils/response-cache.js";
+import { costOf } from "../utils/pricing.js";
 import { logger } from "../utils/logger.js";
+import { ModelWeight, ModelWeights } from "../utils/model-weights.js";
+import { AnswerBucket, AnswerSpec, answerInstruction, extractAnswer, tallyAnswers } from "../utils/answer-format.js";
+import { queryStructured } from "../utils/structured-output.js";
 
 export const consensusSchema = z.object({
   models: z
     .array(z.string())
-    .min(3)
+    .min(1)
     .max(7)
-    .describe("List of model IDs to poll (3-7 models)"),
+    .describe("List of model IDs to poll (3-7 models). Aliases work, \"@group\" expands to the group's models, and \"auto:N\" adds N auto-picked models."),
   prompt: z.string().describe("The prompt to send to all models"),
   strategy: z
-    .enum(["majority", "supermajority", "unanimous"])
+    .enum(["majority", "supermajority", "unanimous", "weighted"])
     .optional()
     .default("majority")
-    .describe("Voting strategy — how many models must agree"),
+    .describe("Voting strategy — how many models must agree. 'weighted' counts vote weight (configured or learned per model) instead of heads"),
   judge_model: z.string().optional().describe("Optional model ID to use as judge. Auto-picks if not specified."),
+  judges: z
+    .array(z.string())
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Judge panel (2-5 models, \"@group\" works) that group the responses independently; their groupings are merged by vote. Overrides judge_model."),
+  min_judge_agreement: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .default(0.7)
+    .describe("With judges — below this inter-judge agreement (0-1) the result is flagged unreliable"),
   system_prompt: z.string().optional(),
   temperature: z.number().min(0).max(2).optional().default(0),
   max_tokens: z.number().int().positive().optional().default(1024),
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe("Response cache — 'use' reads/writes (default for temperature 0), 'bypass' skips it, 'refresh' re-queries and overwrites"),
+  answer_format: z
+    .enum(["free", "choice", "number", "boolean", "json_field"])
+    .optional()
+    .default("free")
+    .describe("'free' uses a judge model; the others make every model end with a parseable answer and count exact matches, with no judge call"),
+  choices: z
+    .array(z.string())
+    .min(2)
+    .optional()
+    .describe("answer_format 'choice' — allowed answers (default A, B, C, D)"),
+  tolerance: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("answer_format 'number' — answers within this absolute difference agree (default 0)"),
+  json_field: z
+    .string()
+    .optional()
+    .describe("answer_format 'json_field' — field to compare, dot paths allowed (e.g. 'verdict' or 'result.id')"),
 });
 
 export type ConsensusInput = z.infer<typeof consensusSchema>;
 
-interface ModelVote {
+export interface ModelVote {
   model: string;
   content: string;
+  cached_at?: number;
+  tokens?: number;
+  /** USD, undefined when the model has no configured price */
+  cost?: number;
   error?: string;
 }
 
-export async function consensus(
+/**
+ * Query every model in parallel. A model that fails comes back with
+ * `error` set instead of rejecting the whole poll. promptFor lets each
+ * model get its own input (debate gives each one its own history).
+ */
+export async function pollModels(
   provider: Provider,
-  input: ConsensusInput
-): Promise<string> {
-  // Query all models in parallel
+  models: string[],
+  promptFor: (model: string) => QueryInput,
+  options: QueryOptions
+): Promise<ModelVote[]> {
   const results = await Promise.allSettled(
-    input.models.map((model) =>
-      provider.query(model, input.prompt, {
-        system_prompt: input.system_prompt,
-        temperature: input.temperature,
-        max_tokens: input.max_tokens,
-      })
-    )
+    models.map((model) => provider.query(model, promptFor(model), options))
   );
 
-  const votes: ModelVote[] = results.map((result, i) => {
+  return results.map((result, i) => {
     if (result.status === "fulfilled") {
-      return { model: input.models[i], content: result.value.content };
+      return {
+        model: models[i],
+        content: result.value.content,
+        cached_at: result.value.cached_at,
+        tokens: result.value.usage?.total_tokens,
+        cost: costOf(models[i], result.value),
+      };
     }
     return {
-      model: input.models[i],
+      model: models[i],
       content: "",
       error:
         result.reason instanceof Error
@@ -78,6 +146,27 @@ export async function consensus(
           : String(result.reason),
     };
   });
+}
+
+export async function consensus(
+  provider: Provider,
+  input: ConsensusInput,
+  onProgress?: ProgressCallback,
+  weights: ModelWeights = new ModelWeights()
+): Promise<string> {
+  const models = expandModels(input.models, 3, 7);
+  const spec = answerSpec(input);
+  const prompt = spec ? `${input.prompt}\n\n${answerInstruction(spec)}` : input.prompt;
+
+  // Query all models in parallel
+  const votes = await pollModels(provider, models, () => prompt, {
+    system_prompt: input.system_prompt,
+    temperature: input.temperature,
+    max_tokens: input.max_tokens,
+    cache: input.cache,
+    stream: onProgress !== undefined,
+    onProgress,
+  });
 
   const successful = votes.filter((v) => !v.error);
   const failed = votes.filter((v) => v.error);
@@ -86,39 +175,75 @@ export async function consensus(
     return `## Consensus Failed\n\nOnly ${successful.length} model(s) responded. Need at least 2 for consensus.\n\nErrors:\n${failed.map((f) => `- ${f.model}: ${f.error}`).join("\n")}`;
   }
 
-  const threshold = getThreshold(input.strategy ?? "majority");
+  const strategy = input.strategy ?? "majority";
+  const threshold = getThreshold(strategy);
   const requiredVotes = Math.ceil(successful.length * threshold);
+  const weightOf = (v: ModelVote) => (strategy === "weighted" ? weights.weightOf(v.model).weight : 1);
 
-  // Use a judge model to determine agreement
-  const judgeModel = input.judge_model ?? await pickJudge(provider, input.models);
-  let agreeing: ModelVote[];
-  let dissenting: ModelVote[];
+  // Groups of responses that agree, or null when no judge could tell us
+  let groups: ModelVote[][] | null = null;
+  let exact: ConsensusResult["exact"];
+  let judgeModel: string | null = null;
   let judgeLatency: number | undefined;
-
-  if (judgeModel) {
-    logger.info(`consensus: using ${judgeModel} as judge`);
-    const judgeStart = Date.now();
-    const judgeResult = await judgeAgreement(provider, judgeModel, successful);
-    judgeLatency = Date.now() - judgeStart;
-
-    if (judgeResult) {
-      agreeing = judgeResult.agreeing;
-      dissenting = judgeResult.dissenting;
+  let panel: PanelVerdict | undefined;
+
+  if (spec) {
+    // Checkable answers: count exact matches, no judge
+    const { buckets, unparseable } = tallyAnswers(successful, (v) => extractAnswer(v.content, spec), spec);
+    exact = { format: spec.format, buckets, unparseable };
+    groups = buckets.map((b) => b.voters);
+  } else if (input.judges) {
+    const judges = expandModels(input.judges, 2, 5);
+    logger.info(`consensus: judge panel ${judges.join(", ")}`);
+    panel = await judgePanel(provider, judges, successful, input.cache);
+    groups = panel.groups && toVotes(panel.groups, successful);
+  } else {
+    judgeModel = input.judge_model ?? await pickJudge(provider, models.map(resolveAlias));
+    if (judgeModel) {
+      logger.info(`consensus: using ${judgeModel} as judge`);
+      const judgeStart = Date.now();
+      const ruling = await judgeAgreement(provider, judgeModel, successful, input.cache);
+      judgeLatency = Date.now() - judgeStart;
+      groups = ruling && toVotes(ruling.groups, successful);
     } else {
-      // Judge failed, fall back to keyword matching
-      logger.warn("consensus: judge failed, falling back to keyword matching");
-      ({ agreeing, dissenting } = keywordFallback(successful));
+      logger.warn("consensus: no judge available, using keyword matching");
     }
+  }
+
+  let agreeing: ModelVote[];
+  if (groups) {
+    agreeing = heaviestGroup(groups, weightOf);
   } else {
-    logger.warn("consensus: no judge available, using keyword matching");
-    ({ agreeing, dissenting } = keywordFallback(successful));
+    // Judge failed, fall back to keyword matching
+    if (judgeModel || panel) logger.warn("consensus: judge failed, falling back to keyword matching");
+    agreeing = keywordFallback(successful).agreeing;
+  }
+  const dissenting = successful.filter((v) => !agreeing.includes(v));
+
+  const minAgreement = input.min_judge_agreement ?? 0.7;
+  const unreliable = panel?.agreement != null && panel.agreement < minAgreement;
+
+  // Learn from clear head-count majorities only; keyword guesses and split panels are too noisy.
+  // A cached vote was already counted when it was fresh, so replays teach nothing.
+  const majority = groups?.find((g) => g.length * 2 > successful.length);
+  const replayed = successful.some((v) => v.cached_at !== undefined);
+  if (majority && !unreliable && !replayed) {
+    weights.record(successful.map((v) => ({ model: v.model, sided: majority.includes(v) })));
   }
 
-  const reached = agreeing.length >= requiredVotes;
+  let weighting: ConsensusResult["weighting"];
+  let reached = agreeing.length >= requiredVotes;
+  if (strategy === "weighted") {
+    const perModel = new Map(successful.map((v) => [v.model, weights.weightOf(v.model)]));
+    const total = sum(successful.map(weightOf));
+    const agreed = sum(agreeing.map(weightOf));
+    weighting = { perModel, total, agreeing: agreed };
+    reached = agreed >= total * threshold;
+  }
 
   return formatConsensus({
     reached,
-    strategy: input.strategy ?? "majority",
+    strategy,
     agreeing,
     dissenting,
     failed,
@@ -126,12 +251,33 @@ export async function consensus(
     totalVoters: successful.length,
     judgeModel,
     judgeLatency,
+    panel: panel && { ...panel, voters: successful, minAgreement },
+    unreliable,
+    exact,
+    weighting,
   });
 }
 
-function getThreshold(strategy: "majority" | "supermajority" | "unanimous"): number {
+function answerSpec(input: ConsensusInput): AnswerSpec | undefined {
+  switch (input.answer_format ?? "free") {
+    case "free":
+      return undefined;
+    case "choice":
+      return { format: "choice", choices: input.choices };
+    case "number":
+      return { format: "number", tolerance: input.tolerance };
+    case "boolean":
+      return { format: "boolean" };
+    case "json_field":
+      if (!input.json_field) throw new Error("answer_format 'json_field' needs json_field (the field to compare)");
+      return { format: "json_field", field: input.json_field };
+  }
+}
+
+function getThreshold(strategy: ConsensusInput["strategy"]): number {
   switch (strategy) {
     case "majority":
+    case "weighted":
       return 0.5;
     case "supermajority":
       return 0.66;
@@ -166,14 +312,15 @@ async function pickJudge(provider: Provider, polledModels: string[]): Promise<st
 }
 
 /**
- * Ask a judge model to group responses by agreement.
- * Returns the largest agreement group as "agreeing" and the rest as "dissenting".
+ * Ask a judge model to group responses by agreement. Groups are indexes
+ * into `votes`; every response lands in exactly one group.
  */
 async function judgeAgreement(
   provider: Provider,
   judgeModel: string,
-  votes: ModelVote[]
-): Promise<{ agreeing: ModelVote[]; dissenting: ModelVote[] } | null> {
+  votes: ModelVote[],
+  cache?: CacheMode
+): Promise<{ groups: number[][]; reasoning: string } | null> {
   const responseSummary = votes
     .map((v, i) => `Response ${i + 1} (${v.model}):\n${v.content}`)
     .join("\n\n---\n\n");
@@ -186,8 +333,7 @@ ${responseSummary}
 
 Do these responses fundamentally agree on the same answer/position, even if they use different words or go into different levels of detail?
 
-Reply with ONLY valid JSON in this exact format, no other text:
-{"groups": [[0, 1, 2]], "reasoning": "all three say the same thing"}
+Example: {"groups": [[0, 1, 2]], "reasoning": "all three say the same thing"}
 
 Rules:
 - Each group is an array of response numbers (0-indexed)
@@ -197,42 +343,186 @@ Rules:
 - Focus on the substance of the answer, not the wording
 - "reasoning" should be one short sentence`;
 
+  const schema = {
+    type: "object",
+    required: ["groups", "reasoning"],
+    properties: {
+      groups: {
+        type: "array",
+        minItems: 1,
+        items: { type: "array", items: { type: "integer", minimum: 0, maximum: votes.length - 1 } },
+      },
+      reasoning: { type: "string" },
+    },
+  };
+
   try {
-    const result = await provider.query(judgeModel, judgePrompt, {
+    const { value } = await queryStructured(provider, judgeModel, judgePrompt, schema, {
       temperature: 0,
       max_tokens: 256,
+      cache,
     });
 
-    // Parse the judge's JSON response
-    const jsonMatch = result.content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      logger.warn("consensus judge: no JSON found in response");
-      return null;
-    }
+    const parsed = value as { groups: unknown[]; reasoning: string };
+    const groups = normalizeGroups(parsed.groups, votes.length);
+    const reasoning = parsed.reasoning;
+    logger.info(
+      `consensus judge ${judgeModel}: ${largestGroup(groups).length}/${votes.length} agree. ${reasoning}`
+    );
+
+    return { groups, reasoning };
+  } catch (err) {
+    logger.warn(`consensus judge failed: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+interface JudgeRuling {
+  model: string;
+  groups?: number[][];
+  reasoning?: string;
+  latency_ms: number;
+  error?: string;
+}
+
+interface PanelVerdict {
+  rulings: JudgeRuling[];
+  /** Merged grouping, or null when no judge produced one */
+  groups: number[][] | null;
+  /** Mean pairwise agreement between judges (0-1), null with fewer than 2 rulings */
+  agreement: number | null;
+}
+
+/** Run every judge in parallel and merge their groupings by vote */
+async function judgePanel(
+  provider: Provider,
+  judges: string[],
+  votes: ModelVote[],
+  cache?: CacheMode
+): Promise<PanelVerdict> {
+  const rulings = await Promise.all(
+    judges.map(async (model): Promise<JudgeRuling> => {
+      const start = Date.now();
+      const ruling = await judgeAgreement(provider, model, votes, cache);
+      const latency_ms = Date.now() - start;
+      return ruling
+        ? { model, groups: ruling.groups, reasoning: ruling.reasoning, latency_ms }
+        : { model, latency_ms, error: "no usable grouping" };
+    })
+  );
+
+  const groupings = rulings.flatMap((r) => (r.groups ? [r.groups] : []));
+  if (groupings.length === 0) return { rulings, groups: null, agreement: null };
+  return { rulings, ...mergeGroupings(groupings, votes.length) };
+}
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (!parsed.groups || !Array.isArray(parsed.groups)) {
-      logger.warn("consensus judge: invalid groups format");
-      return null;
+/**
+ * Merge several judges' groupings of `count` responses. Two responses
+ * share a group when a strict majority of judges put them together
+ * (transitively). Agreement is null with fewer than 2 groupings.
+ */
+export function mergeGroupings(
+  groupings: number[][][],
+  count: number
+): { groups: number[][]; agreement: number | null } {
+  const labels = groupings.map((g) => labelsOf(g, count));
+  let agreement: number | null = null;
+  if (labels.length >= 2) {
+    let sum = 0;
+    let pairs = 0;
+    for (let a = 0; a < labels.length; a++) {
+      for (let b = a + 1; b < labels.length; b++) {
+        sum += pairAgreement(labels[a], labels[b]);
+        pairs++;
+      }
     }
+    agreement = sum / pairs;
+  }
 
-    // Find the largest agreement group
-    const groups: number[][] = parsed.groups;
-    const largest = groups.reduce((a, b) => (a.length >= b.length ? a : b), []);
+  const parent = Array.from({ length: count }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const together = labels.filter((l) => l[i] === l[j]).length;
+      if (together * 2 > labels.length) parent[find(j)] = find(i);
+    }
+  }
+  const merged = new Map<number, number[]>();
+  for (let i = 0; i < count; i++) {
+    merged.set(find(i), [...(merged.get(find(i)) ?? []), i]);
+  }
 
-    const agreeing: ModelVote[] = largest.map((i: number) => votes[i]).filter(Boolean);
-    const agreeingSet = new Set(largest);
-    const dissenting: ModelVote[] = votes.filter((_, i) => !agreeingSet.has(i));
+  return { groups: [...merged.values()], agreement };
+}
 
-    logger.info(
-      `consensus judge: ${agreeing.length}/${votes.length} agree. ${parsed.reasoning ?? ""}`
+/**
+ * Clean up a judge's groups: drop out-of-range and repeated indexes,
+ * and give any response the judge left out a group of its own.
+ */
+function normalizeGroups(raw: unknown[], count: number): number[][] {
+  const seen = new Set<number>();
+  const groups: number[][] = [];
+  for (const group of raw) {
+    if (!Array.isArray(group)) continue;
+    const members = group.filter(
+      (i): i is number => Number.isInteger(i) && i >= 0 && i < count && !seen.has(i)
     );
+    for (const i of members) seen.add(i);
+    if (members.length > 0) groups.push([...new Set(members)]);
+  }
+  for (let i = 0; i < count; i++) {
+    if (!seen.has(i)) groups.push([i]);
+  }
+  return groups;
+}
 
-    return { agreeing, dissenting };
-  } catch (err) {
-    logger.warn(`consensus judge failed: ${err instanceof Error ? err.message : String(err)}`);
-    return null;
+/** Group id for each response */
+function labelsOf(groups: number[][], count: number): number[] {
+  const labels = new Array<number>(count).fill(-1);
+  groups.forEach((group, g) => group.forEach((i) => (labels[i] = g)));
+  return labels;
+}
+
+/**
+ * Share of response pairs two judges treat the same way (both "together"
+ * or both "apart"). 1 means identical groupings.
+ */
+function pairAgreement(a: number[], b: number[]): number {
+  let same = 0;
+  let pairs = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      if ((a[i] === a[j]) === (b[i] === b[j])) same++;
+      pairs++;
+    }
+  }
+  return pairs === 0 ? 1 : same / pairs;
+}
+
+function largestGroup(groups: number[][]): number[] {
+  return groups.reduce((a, b) => (a.length >= b.length ? a : b), []);
+}
+
+function toVotes(groups: number[][], votes: ModelVote[]): ModelVote[][] {
+  return groups.map((g) => g.map((i) => votes[i]));
+}
+
+/** The group with the most vote weight; on a tie the earlier group wins */
+function heaviestGroup(groups: ModelVote[][], weightOf: (v: ModelVote) => number): ModelVote[] {
+  let best: ModelVote[] = [];
+  let bestWeight = -1;
+  for (const group of groups) {
+    const weight = sum(group.map(weightOf));
+    if (weight > bestWeight) {
+      best = group;
+      bestWeight = weight;
+    }
   }
+  return best;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
 }
 
 /**
@@ -284,24 +574,109 @@ interface ConsensusResult {
   totalVoters: number;
   judgeModel?: string | null;
   judgeLatency?: number;
+  panel?: PanelVerdict & { voters: ModelVote[]; minAgreement: number };
+  /** The judge panel disagreed too much to trust the grouping */
+  unreliable?: boolean;
+  /** Set for the weighted strategy */
+  weighting?: {
+    perModel: Map<string, ModelWeight>;
+    total: number;
+    agreeing: number;
+  };
+  /** Set when answers were matched exactly instead of by a judge */
+  exact?: {
+    format: string;
+    buckets: AnswerBucket<ModelVote>[];
+    unparseable: ModelVote[];
+  };
 }
 
 function formatConsensus(result: ConsensusResult): string {
+  const weighting = result.weighting;
+  // Weighted: confidence is the agreeing share of vote weight, not of heads
   const confidence = Math.round(
-    (result.agreeing.length / result.totalVoters) * 100
+    (weighting ? weighting.agreeing / weighting.total : result.agreeing.length / result.totalVoters) * 100
   );
 
   const lines: string[] = [
-    `## Consensus: ${result.reached ? "REACHED" : "NOT REACHED"}`,
-    "",
-    `**Strategy:** ${result.strategy} (needed ${result.requiredVotes}/${result.totalVoters})`,
-    `**Agreement:** ${result.agreeing.length}/${result.totalVoters} models (${confidence}%)`,
-    result.judgeModel
-      ? `**Judge:** ${result.judgeModel}${result.judgeLatency ? ` (${result.judgeLatency}ms)` : ""}`
-      : "",
+    `## Consensus: ${result.unreliable ? "UNRELIABLE" : result.reached ? "REACHED" : "NOT REACHED"}`,
     "",
   ];
 
+  const panel = result.panel;
+  if (result.unreliable && panel?.agreement != null) {
+    lines.push(
+      `> The judges disagreed on which responses agree (${Math.round(panel.agreement * 100)}% inter-judge agreement, below ${Math.round(panel.minAgreement * 100)}%). The grouping below is the panel's best guess, not a verdict.`
+    );
+    lines.push("");
+  }
+
+  const weightShare = weighting ? `, weight ${weighting.agreeing.toFixed(2)}/${weighting.total.toFixed(2)}` : "";
+  lines.push(
+    weighting
+      ? `**Strategy:** weighted (needed ${(weighting.total / 2).toFixed(2)} of ${weighting.total.toFixed(2)} weight)`
+      : `**Strategy:** ${result.strategy} (needed ${result.requiredVotes}/${result.totalVoters})`
+  );
+  lines.push(
+    result.unreliable
+      ? `**Largest group:** ${result.agreeing.length}/${result.totalVoters} models${weightShare}`
+      : `**Agreement:** ${result.agreeing.length}/${result.totalVoters} models${weightShare} (${confidence}%)`
+  );
+  if (result.exact) {
+    lines.push(`**Method:** exact ${result.exact.format} match (no judge)`);
+  } else if (panel) {
+    const score = panel.agreement != null ? ` (inter-judge agreement ${Math.round(panel.agreement * 100)}%)` : "";
+    const fallback = panel.groups ? "" : " — all failed, used keyword matching";
+    lines.push(`**Judges:** ${panel.rulings.map((r) => r.model).join(", ")}${score}${fallback}`);
+  } else if (result.judgeModel) {
+    lines.push(`**Judge:** ${result.judgeModel}${result.judgeLatency ? ` (${result.judgeLatency}ms)` : ""}`);
+  }
+  lines.push("");
+
+  if (panel) {
+    lines.push("### Judge Panel");
+    lines.push("");
+    lines.push("| Judge | Grouping | Latency |");
+    lines.push("|-------|----------|---------|");
+    for (const r of panel.rulings) {
+      const grouping = r.groups
+        ? r.groups.map((g) => `{${g.map((i) => panel.voters[i].model).join(", ")}}`).join(" ")
+        : `*${r.error}*`;
+      lines.push(`| ${r.model} | ${grouping} | ${r.latency_ms}ms |`);
+    }
+    lines.push("");
+  }
+
+  if (weighting) {
+    lines.push("### Vote Weights");
+    lines.push("");
+    lines.push("| Model | Weight | Source | Vote |");
+    lines.push("|-------|--------|--------|------|");
+    for (const v of [...result.agreeing, ...result.dissenting]) {
+      const w = weighting.perModel.get(v.model);
+      if (!w) continue;
+      const source = w.source === "learned" ? `learned (${w.samples} runs)` : w.source;
+      lines.push(`| ${v.model} | ${w.weight.toFixed(2)} | ${source} | ${result.agreeing.includes(v) ? "agrees" : "dissents"} |`);
+    }
+    lines.push("");
+  }
+
+  if (result.exact) {
+    lines.push("### Vote Histogram");
+    lines.push("");
+    lines.push("| Answer | Votes | Models |");
+    lines.push("|--------|-------|--------|");
+    const rows = result.exact.buckets.map((b) => ({ answer: `\`${b.answer}\``, voters: b.voters }));
+    if (result.exact.unparseable.length > 0) {
+      rows.push({ answer: "*(unparseable)*", voters: result.exact.unparseable });
+    }
+    for (const row of rows) {
+      const bar = "█".repeat(row.voters.length);
+      lines.push(`| ${row.answer} | ${bar} ${row.voters.length} | ${row.voters.map((v) => v.model).join(", ")} |`);
+    }
+    lines.push("");
+  }
+
   // Show the consensus answer (first agreeing model's response)
   if (result.agreeing.length > 0) {
     lines.push("### Consensus Response");
@@ -320,7 +695,8 @@ function formatConsensus(result: ConsensusResult): string {
     lines.push("### Individual Responses");
     for (const v of allVotes) {
       const summary = v.content.slice(0, 150).replace(/\n/g, " ");
-      lines.push(`- **${v.model}:** ${summary}${v.content.length > 150 ? "..." : ""}`);
+      const cached = v.cached_at !== undefined ? ` *(${describeCacheAge(v.cached_at)})*` : "";
+      lines.push(`- **${v.model}:**${cached} ${summary}${v.content.length > 150 ? "..." : ""}`);
     }
     lines.push("");
   }
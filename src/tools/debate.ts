@@ -0,0 +1,306 @@
+/**
+ * debate — Models answer, read each other's answers, and argue it out.
+ *
+ * compare_models and consensus take one independent sample per model;
+ * nobody ever sees anyone else's answer. Here they do:
+ *
+ * 1. Round 1: every participant answers the question on its own
+ * 2. Rounds 2..N: each participant gets the others' previous answers and
+ *    must revise its own or rebut theirs. Every reply starts with
+ *    "POSITION: CHANGED" or "POSITION: MAINTAINED" so we can track who
+ *    moved without a judge call.
+ * 3. Optional: a moderator model reads the final positions and the
+ *    history of changes, and writes a verdict
+ *
+ * Each participant keeps its own conversation (question, its answers,
+ * the rebuttal prompts), so it argues from what it actually said.
+ * A participant that errors drops out of later rounds; the debate goes
+ * on as long as two are left.
+ */
+
+import { z } from "zod";
+import { ChatMessage, Provider } from "../providers/provider.js";
+import { ProgressCallback } from "../utils/progress.js";
+import { expandModels } from "../utils/model-aliases.js";
+import { describeCacheAge } from "../utils/response-cache.js";
+import { logger } from "../utils/logger.js";
+import { ModelVote, pollModels } from "./consensus.js";
+
+export const debateSchema = z.object({
+  models: z
+    .array(z.string())
+    .min(1)
+    .max(5)
+    .describe("Debate participants (2-5 models). Aliases work, \"@group\" expands to the group's models, and \"auto:N\" adds N auto-picked models."),
+  prompt: z.string().describe("The question or claim to debate"),
+  rounds: z
+    .number()
+    .int()
+    .min(2)
+    .max(5)
+    .optional()
+    .default(2)
+    .describe("Total rounds including the opening answers (2-5, default 2)"),
+  moderator_model: z
+    .string()
+    .optional()
+    .describe("Optional model that reads the final positions and writes a verdict"),
+  system_prompt: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional().default(1024),
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe("Response cache — 'use' reads/writes (default for temperature 0), 'bypass' skips it, 'refresh' re-queries and overwrites"),
+});
+
+export type DebateInput = z.infer<typeof debateSchema>;
+
+type Stance = "opening" | "changed" | "maintained" | "failed";
+
+interface Turn {
+  model: string;
+  round: number;
+  stance: Stance;
+  content: string;
+  cached_at?: number;
+  error?: string;
+}
+
+interface Verdict {
+  model: string;
+  content: string;
+  latency_ms: number;
+  cached_at?: number;
+  error?: string;
+}
+
+const STANCE_LINE = /^\s*\**POSITION:\s*(CHANGED|MAINTAINED)\**\s*\n?/i;
+
+export async function debate(
+  provider: Provider,
+  input: DebateInput,
+  onProgress?: ProgressCallback
+): Promise<string> {
+  const models = expandModels(input.models, 2, 5);
+  const rounds = input.rounds ?? 2;
+  const startTime = Date.now();
+
+  const histories = new Map<string, ChatMessage[]>(
+    models.map((m) => [m, [{ role: "user", content: input.prompt }]])
+  );
+  const turns: Turn[][] = [];
+  let active = models;
+
+  for (let round = 1; round <= rounds; round++) {
+    const previous = turns[turns.length - 1];
+    if (previous) {
+      for (const model of active) {
+        histories.get(model)!.push({ role: "user", content: rebuttalPrompt(round, model, previous) });
+      }
+    }
+
+    logger.info(`debate: round ${round}/${rounds} with ${active.length} participants`);
+    const votes = await pollModels(provider, active, (m) => histories.get(m)!, {
+      system_prompt: input.system_prompt,
+      temperature: input.temperature,
+      max_tokens: input.max_tokens,
+      cache: input.cache,
+      stream: onProgress !== undefined,
+      onProgress,
+    });
+
+    const roundTurns = votes.map((v) => toTurn(v, round));
+    for (const turn of roundTurns) {
+      if (!turn.error) histories.get(turn.model)!.push({ role: "assistant", content: turn.content });
+    }
+    turns.push(roundTurns);
+
+    active = roundTurns.filter((t) => !t.error).map((t) => t.model);
+    if (active.length < 2) {
+      logger.warn(`debate: only ${active.length} participant(s) left after round ${round}, stopping`);
+      break;
+    }
+  }
+
+  const final = latestAnswers(turns);
+  let verdict: Verdict | undefined;
+
+  if (input.moderator_model && final.length > 0) {
+    const moderatorStart = Date.now();
+    try {
+      const result = await provider.query(input.moderator_model, moderatorPrompt(input.prompt, turns, final), {
+        temperature: 0,
+        max_tokens: input.max_tokens,
+        cache: input.cache,
+      });
+      verdict = {
+        model: input.moderator_model,
+        content: result.content,
+        latency_ms: Date.now() - moderatorStart,
+        cached_at: result.cached_at,
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`debate moderator failed: ${message}`);
+      verdict = { model: input.moderator_model, content: "", latency_ms: Date.now() - moderatorStart, error: message };
+    }
+  }
+
+  return formatDebate(models, turns, final, verdict, Date.now() - startTime);
+}
+
+function toTurn(vote: ModelVote, round: number): Turn {
+  if (vote.error) {
+    return { model: vote.model, round, stance: "failed", content: "", error: vote.error };
+  }
+  if (round === 1) {
+    return { model: vote.model, round, stance: "opening", content: vote.content, cached_at: vote.cached_at };
+  }
+
+  // No marker counts as maintained — claiming a change needs an explicit signal
+  const match = STANCE_LINE.exec(vote.content);
+  return {
+    model: vote.model,
+    round,
+    stance: match?.[1].toUpperCase() === "CHANGED" ? "changed" : "maintained",
+    content: match ? vote.content.slice(match[0].length).trim() : vote.content,
+    cached_at: vote.cached_at,
+  };
+}
+
+function rebuttalPrompt(round: number, self: string, previous: Turn[]): string {
+  const others = previous
+    .filter((t) => t.model !== self && !t.error)
+    .map((t) => `### ${t.model}\n${t.content}`)
+    .join("\n\n");
+
+  return `Round ${round} of the debate. The other participants answered:
+
+${others}
+
+Consider their arguments against your previous answer. Where they are right, revise your answer. Where they are wrong, rebut them specifically.
+
+Start your reply with exactly one line: "POSITION: CHANGED" if your core answer changed, or "POSITION: MAINTAINED" if it did not. Then give your full updated answer.`;
+}
+
+function moderatorPrompt(question: string, turns: Turn[][], final: Turn[]): string {
+  const positions = final.map((t) => `### ${t.model}\n${t.content}`).join("\n\n");
+  const changes = changedMinds(turns);
+
+  return `You are moderating a debate between AI models.
+
+Question: "${question}"
+
+After ${turns.length} rounds, their final positions are:
+
+${positions}
+
+${changes.length > 0 ? `Changed their position during the debate: ${changes.join(", ")}.` : "Nobody changed their position during the debate."}
+
+Write the verdict: which answer is best supported and why, what the participants still disagree on, and the answer you would give. Be concise. No preamble.`;
+}
+
+/** Each participant's last successful turn */
+function latestAnswers(turns: Turn[][]): Turn[] {
+  const latest = new Map<string, Turn>();
+  for (const round of turns) {
+    for (const turn of round) {
+      if (!turn.error) latest.set(turn.model, turn);
+    }
+  }
+  return [...latest.values()];
+}
+
+function changedMinds(turns: Turn[][]): string[] {
+  const changed = new Set<string>();
+  for (const round of turns) {
+    for (const turn of round) {
+      if (turn.stance === "changed") changed.add(turn.model);
+    }
+  }
+  return [...changed];
+}
+
+function formatDebate(
+  models: string[],
+  turns: Turn[][],
+  final: Turn[],
+  verdict: Verdict | undefined,
+  totalTime: number
+): string {
+  const lines: string[] = [
+    `## Debate (${models.length} models, ${turns.length} rounds, ${totalTime}ms total)`,
+    "",
+  ];
+
+  if (verdict && !verdict.error) {
+    const cached = verdict.cached_at !== undefined ? `, ${describeCacheAge(verdict.cached_at)}` : "";
+    lines.push(`**Moderator:** ${verdict.model} (${verdict.latency_ms}ms${cached})`);
+    lines.push("");
+    lines.push("### Verdict");
+    lines.push("");
+    lines.push(verdict.content);
+    lines.push("");
+  } else if (verdict?.error) {
+    lines.push(`*Moderator ${verdict.model} failed: ${verdict.error}*`);
+    lines.push("");
+  }
+
+  // One row per participant, one column per round after the opening
+  if (turns.length > 1) {
+    lines.push("### Position Changes");
+    lines.push("");
+    const header = turns.slice(1).map((_, i) => `Round ${i + 2}`);
+    lines.push(`| Model | ${header.join(" | ")} |`);
+    lines.push(`|-------|${header.map(() => "------").join("|")}|`);
+    for (const model of models) {
+      const cells = turns.slice(1).map((round) => {
+        const turn = round.find((t) => t.model === model);
+        if (!turn) return "—";
+        return turn.stance === "changed" ? "**changed**" : turn.stance;
+      });
+      lines.push(`| ${model} | ${cells.join(" | ")} |`);
+    }
+    lines.push("");
+
+    const changed = changedMinds(turns);
+    lines.push(
+      changed.length > 0
+        ? `**Changed their minds:** ${changed.join(", ")}`
+        : "**Changed their minds:** nobody — every participant held its position"
+    );
+    lines.push("");
+  }
+
+  lines.push("### Final Positions");
+  lines.push("");
+  for (const turn of final) {
+    const cached = turn.cached_at !== undefined ? ` *(${describeCacheAge(turn.cached_at)})*` : "";
+    lines.push(`#### ${turn.model} (round ${turn.round})${cached}`);
+    lines.push("");
+    lines.push(turn.content);
+    lines.push("");
+  }
+
+  // Opening answers, trimmed, so the shift from round 1 is visible
+  if (turns.length > 1) {
+    lines.push("### Opening Answers");
+    for (const turn of turns[0].filter((t) => !t.error)) {
+      const summary = turn.content.slice(0, 200).replace(/\n/g, " ");
+      lines.push(`- **${turn.model}:** ${summary}${turn.content.length > 200 ? "..." : ""}`);
+    }
+    lines.push("");
+  }
+
+  const failures = turns.flat().filter((t) => t.error);
+  if (failures.length > 0) {
+    lines.push("### Errors");
+    for (const f of failures) {
+      lines.push(`- **${f.model}** (round ${f.round}): ${f.error}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
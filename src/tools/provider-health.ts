@@ -0,0 +1,116 @@
+/**
+ * provider_health — What's up, what's down, and what happens when it is.
+ *
+ * status:     each backend's reachability (a live healthCheck), then every
+ *             model the circuit breaker has seen or that has a fallback
+ *             chain: circuit state, window failure rate, cooldown left and
+ *             where its queries fall back to
+ * reset:      close a model's circuit and clear its failure window
+ * force_open: stop sending a model traffic until the cooldown runs out
+ *
+ * Agents can check this before fanning out instead of paying a timeout
+ * to find out a model is broken.
+ */
+
+import { z } from "zod";
+import { MultiProvider } from "../providers/multi-provider.js";
+import { CircuitStats } from "../utils/circuit-breaker.js";
+import { getFallbacks } from "../utils/fallback-chains.js";
+import { getConfig } from "../utils/config.js";
+
+export const providerHealthSchema = z.object({
+  action: z
+    .enum(["status", "reset", "force_open"])
+    .optional()
+    .default("status")
+    .describe("'status' reports health; 'reset' and 'force_open' change a model's circuit"),
+  model: z
+    .string()
+    .optional()
+    .describe("Prefixed model ID, e.g. 'cliproxy/gpt-5'. Required for reset/force_open; filters status."),
+  cooldown_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("force_open only — how long to keep the circuit open (default: circuit_breaker.cooldown_ms)"),
+});
+
+export type ProviderHealthInput = z.infer<typeof providerHealthSchema>;
+
+export async function providerHealth(multi: MultiProvider, input: ProviderHealthInput): Promise<string> {
+  switch (input.action ?? "status") {
+    case "reset":
+      if (!input.model) throw new Error("model is required to reset a circuit");
+      multi.resetCircuit(input.model);
+      return `Circuit for \`${input.model}\` reset to CLOSED with an empty failure window.`;
+
+    case "force_open": {
+      if (!input.model) throw new Error("model is required to force a circuit open");
+      multi.forceOpenCircuit(input.model, input.cooldown_ms);
+      const seconds = Math.ceil((input.cooldown_ms ?? getConfig().circuit_breaker.cooldown_ms) / 1000);
+      return `Circuit for \`${input.model}\` forced OPEN for ${seconds}s. Queries will fail fast (or use its fallback chain) until then.`;
+    }
+
+    default:
+      return formatStatus(multi, input.model);
+  }
+}
+
+async function formatStatus(multi: MultiProvider, filter?: string): Promise<string> {
+  const providers = await multi.checkProviders();
+  const circuits = multi.getHealth();
+
+  // Models with a configured fallback chain are worth listing even before their first query
+  const models = new Set([...Object.keys(circuits), ...Object.keys(getConfig().fallbacks)]);
+  const shown = [...models]
+    .filter((m) => !filter || m === filter || m.endsWith(`/${filter}`))
+    .sort();
+
+  const lines: string[] = [
+    `## Provider Health`,
+    "",
+    "| Provider | Backend | Reachable |",
+    "|----------|---------|-----------|",
+  ];
+  for (const p of providers) {
+    lines.push(`| ${p.key} | ${p.name} | ${p.reachable ? "yes" : "**no**"} |`);
+  }
+  lines.push("");
+
+  if (shown.length === 0) {
+    lines.push(
+      filter
+        ? `No circuit or fallback chain for \`${filter}\` yet — it hasn't been queried since startup.`
+        : "No models queried since startup."
+    );
+    return lines.join("\n");
+  }
+
+  const { window_size } = getConfig().circuit_breaker;
+  lines.push(`### Models (window of ${window_size})`);
+  lines.push("");
+  lines.push("| Model | Circuit | Failure rate | Cooldown left | Fallbacks |");
+  lines.push("|-------|---------|--------------|---------------|-----------|");
+  for (const model of shown) {
+    const stats: CircuitStats | undefined = circuits[model];
+    const fallbacks = getFallbacks(model);
+    lines.push(
+      `| ${model} | ${stats ? formatState(stats) : "CLOSED"} | ${stats ? formatRate(stats) : "n/a"} | ` +
+        `${stats?.cooldownRemainingMs ? `${Math.ceil(stats.cooldownRemainingMs / 1000)}s` : "—"} | ` +
+        `${fallbacks.length > 0 ? fallbacks.join(" → ") : "none"} |`
+    );
+  }
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function formatState(stats: CircuitStats): string {
+  return stats.state === "CLOSED" ? "CLOSED" : `**${stats.state}**`;
+}
+
+function formatRate(stats: CircuitStats): string {
+  if (stats.totalRequests === 0) return "n/a";
+  return `${(stats.failureRate * 100).toFixed(0)}% (${stats.failures}/${stats.totalRequests})`;
+}
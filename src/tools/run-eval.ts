@@ -0,0 +1,368 @@
+/**
+ * run_eval — Run a JSONL prompt suite across models and rank them.
+ *
+ * Picking models by gut feel doesn't survive a provider quietly swapping
+ * what's behind a name. This runs every suite item (see eval-suite.ts for
+ * the format and graders) against every model, a few at a time, grades
+ * each answer, saves the per-item results, and returns a leaderboard:
+ * accuracy, errors, latency and tokens per model.
+ *
+ * Each run is compared with a baseline (the previous run of the same
+ * suite by default): accuracy deltas, items that went from pass to fail
+ * (regressions) or back, and models whose served model ID changed.
+ *
+ * Queries bypass the response cache: a cached answer would hide exactly
+ * the drift an eval is meant to catch. Judge grading may use the cache.
+ * Also available from the command line: `hydramcp eval <suite.jsonl> --models a,b`.
+ */
+
+import { resolve } from "node:path";
+import { z } from "zod";
+import { Provider } from "../providers/provider.js";
+import { expandModels } from "../utils/model-aliases.js";
+import { EvalItem, Grade, gradeAnswer, loadSuite } from "../utils/eval-suite.js";
+import { EvalItemResult, EvalRun, EvalRunStore, RUN_ID_PATTERN } from "../utils/eval-runs.js";
+import { confinePath, FileScope } from "../utils/file-access.js";
+import { logger } from "../utils/logger.js";
+
+const OUTPUT_LIMIT = 2000;
+const MAX_LISTED = 15;
+
+export const runEvalSchema = z.object({
+  suite: z
+    .string()
+    .min(1)
+    .describe("Path to the JSONL suite file (absolute, or relative to the server's working directory; over HTTP, relative to http.eval_dir)"),
+  models: z
+    .array(z.string())
+    .min(1)
+    .max(10)
+    .describe("Models to evaluate (1-10). Aliases work and \"@group\" expands to the group's models."),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(16)
+    .optional()
+    .default(4)
+    .describe("Queries in flight at once across the whole run"),
+  judge_model: z
+    .string()
+    .optional()
+    .describe("Model for judge graders that don't name their own"),
+  compare_to: z
+    .string()
+    .refine((v) => v === "previous" || v === "none" || RUN_ID_PATTERN.test(v), "use 'previous', 'none' or a run ID")
+    .optional()
+    .default("previous")
+    .describe("Baseline to diff against: 'previous' (default), a run ID, or 'none'"),
+  system_prompt: z.string().optional().describe("Used for items that don't set their own"),
+  temperature: z.number().min(0).max(2).optional().default(0),
+  max_tokens: z.number().int().positive().optional().default(1024),
+});
+
+export type RunEvalInput = z.infer<typeof runEvalSchema>;
+
+export interface EvalDiff {
+  baseline: string;
+  /** Accuracy on the items both runs graded, per model in both runs */
+  models: Array<{ model: string; before: number; after: number }>;
+  regressions: Array<{ model: string; item: string; note?: string }>;
+  fixes: Array<{ model: string; item: string }>;
+  /** Models whose backend reported a different served model than last time */
+  swaps: Array<{ model: string; before: string[]; after: string[] }>;
+}
+
+interface ModelScore {
+  model: string;
+  passed: number;
+  failed: number;
+  errors: number;
+  ungraded: number;
+  latencyTotal: number;
+  latencyCount: number;
+  tokens: number;
+}
+
+export async function runEval(
+  provider: Provider,
+  store: EvalRunStore,
+  input: RunEvalInput,
+  files?: FileScope
+): Promise<string> {
+  const { run, path, diff } = await executeEval(provider, store, input, files);
+  return formatEvalReport(run, path, diff);
+}
+
+/**
+ * Run, grade, save and diff. The CLI uses this directly to pick its exit code.
+ * `files` confines the suite path (HTTP); undefined allows any path.
+ */
+export async function executeEval(
+  provider: Provider,
+  store: EvalRunStore,
+  input: RunEvalInput,
+  files?: FileScope
+): Promise<{ run: EvalRun; path: string; diff?: EvalDiff }> {
+  const suite = await loadSuite(resolve(await confinePath(input.suite, files)));
+  const models = expandModels(input.models, 1, 10);
+  const compareTo = input.compare_to ?? "previous";
+
+  // Fail on a bad baseline ID before spending anything on queries
+  const explicitBaseline =
+    compareTo !== "previous" && compareTo !== "none" ? await store.load(suite.name, compareTo) : undefined;
+
+  const tasks = models.flatMap((model) => suite.items.map((item) => ({ model, item })));
+  const startedAt = Date.now();
+  const id = EvalRunStore.newRunId(new Date(startedAt));
+  logger.info(`eval ${suite.name}: ${suite.items.length} items × ${models.length} models, run ${id}`);
+
+  let done = 0;
+  const results = await mapLimit(tasks, input.concurrency ?? 4, async ({ model, item }) => {
+    const result = await runItem(provider, model, item, input);
+    done++;
+    if (done % Math.max(1, Math.floor(tasks.length / 10)) === 0 || done === tasks.length) {
+      logger.info(`eval ${suite.name}: ${done}/${tasks.length} done`);
+    }
+    return result;
+  });
+
+  const run: EvalRun = {
+    version: 1,
+    id,
+    suite: suite.name,
+    suite_path: suite.path,
+    started_at: startedAt,
+    finished_at: Date.now(),
+    models,
+    items: suite.items.length,
+    results,
+  };
+  const path = await store.save(run);
+
+  const baseline =
+    explicitBaseline ?? (compareTo === "previous" ? await store.previous(suite.name, run.id) : undefined);
+  return { run, path, diff: baseline ? diffRuns(baseline, run) : undefined };
+}
+
+async function runItem(
+  provider: Provider,
+  model: string,
+  item: EvalItem,
+  input: RunEvalInput
+): Promise<EvalItemResult> {
+  let response;
+  try {
+    response = await provider.query(model, item.prompt, {
+      system_prompt: item.system_prompt ?? input.system_prompt,
+      temperature: input.temperature,
+      max_tokens: input.max_tokens,
+      cache: "bypass",
+    });
+  } catch (err) {
+    return {
+      item: item.id,
+      model,
+      status: "error",
+      output: "",
+      note: err instanceof Error ? err.message : String(err),
+      latency_ms: 0,
+    };
+  }
+
+  let grade: Grade;
+  try {
+    grade = await gradeAnswer(provider, item, response.content, { judgeModel: input.judge_model });
+  } catch (err) {
+    // A grader bug shouldn't sink the whole run, or count against the model
+    grade = { status: "ungraded", note: `grading failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  return {
+    item: item.id,
+    model,
+    served_model: response.model,
+    status: grade.status,
+    output: response.content.slice(0, OUTPUT_LIMIT),
+    note: grade.note,
+    latency_ms: response.latency_ms,
+    tokens: response.usage?.total_tokens,
+  };
+}
+
+/** Like Promise.all over fn, with at most `limit` calls in flight. fn must not throw. */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+export function diffRuns(baseline: EvalRun, current: EvalRun): EvalDiff {
+  const key = (r: EvalItemResult) => `${r.model}\u0000${r.item}`;
+  const before = new Map(baseline.results.map((r) => [key(r), r]));
+
+  const diff: EvalDiff = { baseline: baseline.id, models: [], regressions: [], fixes: [], swaps: [] };
+  const perModel = new Map<string, { before: number; after: number; graded: number }>();
+
+  for (const now of current.results) {
+    const then = before.get(key(now));
+    // Ungraded on either side says nothing about the model
+    if (!then || then.status === "ungraded" || now.status === "ungraded") continue;
+
+    const stats = perModel.get(now.model) ?? { before: 0, after: 0, graded: 0 };
+    stats.graded++;
+    if (then.status === "pass") stats.before++;
+    if (now.status === "pass") stats.after++;
+    perModel.set(now.model, stats);
+
+    if (then.status === "pass" && now.status !== "pass") {
+      diff.regressions.push({ model: now.model, item: now.item, note: now.note });
+    } else if (then.status !== "pass" && now.status === "pass") {
+      diff.fixes.push({ model: now.model, item: now.item });
+    }
+  }
+
+  for (const [model, stats] of perModel) {
+    diff.models.push({ model, before: stats.before / stats.graded, after: stats.after / stats.graded });
+  }
+
+  for (const model of current.models) {
+    const servedBefore = servedModels(baseline, model);
+    const servedAfter = servedModels(current, model);
+    if (servedBefore.length > 0 && servedAfter.length > 0 && servedBefore.join() !== servedAfter.join()) {
+      diff.swaps.push({ model, before: servedBefore, after: servedAfter });
+    }
+  }
+
+  return diff;
+}
+
+function servedModels(run: EvalRun, model: string): string[] {
+  const served = new Set<string>();
+  for (const r of run.results) {
+    if (r.model === model && r.served_model) served.add(r.served_model);
+  }
+  return [...served].sort();
+}
+
+export function formatEvalReport(run: EvalRun, path: string, diff?: EvalDiff): string {
+  const lines: string[] = [
+    `## Eval: ${run.suite} (${run.items} items × ${run.models.length} models, ${run.finished_at - run.started_at}ms)`,
+    "",
+    `**Run:** \`${run.id}\``,
+    "",
+  ];
+
+  const scores = run.models.map((model) => scoreModel(run, model));
+  const accuracy = (s: ModelScore) => {
+    const graded = s.passed + s.failed + s.errors;
+    return graded > 0 ? s.passed / graded : 0;
+  };
+  const avgLatency = (s: ModelScore) => (s.latencyCount > 0 ? s.latencyTotal / s.latencyCount : Infinity);
+  scores.sort((a, b) => accuracy(b) - accuracy(a) || avgLatency(a) - avgLatency(b));
+
+  lines.push("### Leaderboard");
+  lines.push("");
+  lines.push("| # | Model | Accuracy | Passed | Failed | Errors | Ungraded | Avg latency | Tokens |");
+  lines.push("|---|-------|----------|--------|--------|--------|----------|-------------|--------|");
+  scores.forEach((s, i) => {
+    const latency = s.latencyCount > 0 ? `${Math.round(s.latencyTotal / s.latencyCount)}ms` : "n/a";
+    lines.push(
+      `| ${i + 1} | ${s.model} | ${(accuracy(s) * 100).toFixed(1)}% | ${s.passed} | ${s.failed} | ${s.errors} | ${s.ungraded} | ${latency} | ${s.tokens || "n/a"} |`
+    );
+  });
+  lines.push("");
+
+  if (diff) lines.push(...formatDiff(diff));
+
+  const misses = run.results.filter((r) => r.status !== "pass");
+  if (misses.length > 0) {
+    lines.push(`### Failures (${misses.length})`);
+    for (const r of misses.slice(0, MAX_LISTED)) {
+      lines.push(`- **${r.model}** \`${r.item}\` (${r.status}): ${r.note ?? "no details"}`);
+    }
+    if (misses.length > MAX_LISTED) lines.push(`- …and ${misses.length - MAX_LISTED} more in the run file`);
+    lines.push("");
+  }
+
+  lines.push(`*Per-item results saved to ${path}*`);
+  return lines.join("\n");
+}
+
+function formatDiff(diff: EvalDiff): string[] {
+  const lines = [`### Compared with \`${diff.baseline}\``, ""];
+
+  if (diff.models.length === 0) {
+    lines.push("*No items in common with the baseline.*");
+    lines.push("");
+    return lines;
+  }
+
+  lines.push("| Model | Before | After | Change |");
+  lines.push("|-------|--------|-------|--------|");
+  for (const m of diff.models) {
+    const delta = (m.after - m.before) * 100;
+    const sign = delta > 0 ? "+" : "";
+    lines.push(
+      `| ${m.model} | ${(m.before * 100).toFixed(1)}% | ${(m.after * 100).toFixed(1)}% | ${sign}${delta.toFixed(1)} pts |`
+    );
+  }
+  lines.push("");
+
+  lines.push(
+    diff.regressions.length > 0
+      ? `**Regressions (${diff.regressions.length})** — passed in the baseline, not now:`
+      : "**Regressions:** none"
+  );
+  for (const r of diff.regressions.slice(0, MAX_LISTED)) {
+    lines.push(`- **${r.model}** \`${r.item}\`${r.note ? `: ${r.note}` : ""}`);
+  }
+  if (diff.regressions.length > MAX_LISTED) lines.push(`- …and ${diff.regressions.length - MAX_LISTED} more`);
+  if (diff.fixes.length > 0) {
+    lines.push(`**Fixed (${diff.fixes.length}):** ${diff.fixes.slice(0, MAX_LISTED).map((f) => `${f.model} \`${f.item}\``).join(", ")}`);
+  }
+  lines.push("");
+
+  if (diff.swaps.length > 0) {
+    lines.push("**Served model changed** — the backend now answers with a different model:");
+    for (const s of diff.swaps) {
+      lines.push(`- **${s.model}:** ${s.before.join(", ")} → ${s.after.join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
+
+function scoreModel(run: EvalRun, model: string): ModelScore {
+  const score: ModelScore = {
+    model,
+    passed: 0,
+    failed: 0,
+    errors: 0,
+    ungraded: 0,
+    latencyTotal: 0,
+    latencyCount: 0,
+    tokens: 0,
+  };
+  for (const r of run.results) {
+    if (r.model !== model) continue;
+    if (r.status === "pass") score.passed++;
+    else if (r.status === "fail") score.failed++;
+    else if (r.status === "error") score.errors++;
+    else score.ungraded++;
+
+    if (r.status !== "error") {
+      score.latencyTotal += r.latency_ms;
+      score.latencyCount++;
+    }
+    score.tokens += r.tokens ?? 0;
+  }
+  return score;
+}
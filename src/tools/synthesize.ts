@@ -15,26 +15,76 @@
  *
  * The synthesizer model is auto-picked (or user-specified). It reads
  * all responses and builds something better than any individual one.
+ *
+ * With attribution, the synthesizer returns JSON instead: each paragraph
+ * with the numbers of the sources that support it. Paragraphs no source
+ * supports are flagged novel, since that's where the synthesizer may have
+ * made something up. The JSON is checked against a schema and the
+ * synthesizer re-prompted with what was wrong (see structured-output.ts);
+ * if it still doesn't validate we show the plain text.
+ *
+ * With refine_rounds, the merged draft goes through critique-and-revise:
+ * the critics (the source models unless given) review it and reply
+ * "VERDICT: APPROVE" or "VERDICT: REVISE" with a list of problems, and
+ * the synthesizer revises and says what it changed. This repeats until
+ * every critic approves or the rounds run out; the output ends with the
+ * changelog of each round.
+ *
+ * Images only go to the source models. The synthesizer and critics work
+ * from the written answers, so they don't need to be vision models.
  */
 
 import { z } from "zod";
-import { Provider } from "../providers/provider.js";
+import { Provider, QueryOptions, QueryResponse } from "../providers/provider.js";
+import { ProgressCallback } from "../utils/progress.js";
+import { expandModels, resolveAlias } from "../utils/model-aliases.js";
+import { describeCacheAge } from "../utils/response-cache.js";
+import { imagesSchema, loadImages, withImages } from "../utils/images.js";
+import { FileScope } from "../utils/file-access.js";
+import { costOf, formatCost } from "../utils/pricing.js";
 import { logger } from "../utils/logger.js";
+import { JsonSchema, parseJsonText } from "../utils/json-schema.js";
+import { queryStructured, StructuredOutputError } from "../utils/structured-output.js";
+import { pollModels } from "./consensus.js";
 
 export const synthesizeSchema = z.object({
   models: z
     .array(z.string())
-    .min(2)
+    .min(1)
     .max(5)
-    .describe("List of model IDs to synthesize from (2-5 models)"),
+    .describe("List of model IDs to synthesize from (2-5 models). Aliases work, \"@group\" expands to the group's models, and \"auto:N\" adds N auto-picked models."),
   prompt: z.string().describe("The prompt to send to all models"),
+  images: imagesSchema,
   synthesizer_model: z
     .string()
     .optional()
     .describe("Optional model ID to use as synthesizer. Auto-picks if not specified."),
+  attribution: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Cite the source model(s) behind each paragraph and flag content no source supports"),
+  refine_rounds: z
+    .number()
+    .int()
+    .min(0)
+    .max(3)
+    .optional()
+    .default(0)
+    .describe("Critique-and-revise rounds after the first synthesis (0-3, default 0). Stops early once every critic approves."),
+  critics: z
+    .array(z.string())
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Models that review the draft during refinement. Defaults to the source models that answered."),
   system_prompt: z.string().optional(),
   temperature: z.number().min(0).max(2).optional(),
   max_tokens: z.number().int().positive().optional().default(1024),
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe("Response cache — 'use' reads/writes (default for temperature 0), 'bypass' skips it, 'refresh' re-queries and overwrites"),
 });
 
 export type SynthesizeInput = z.infer<typeof synthesizeSchema>;
@@ -44,22 +94,100 @@ interface ModelResponse {
   content: string;
   latency_ms: number;
   tokens?: number;
+  cached_at?: number;
+  /** USD, undefined when the model has no configured price */
+  cost?: number;
+  error?: string;
+}
+
+interface Critique {
+  model: string;
+  approved: boolean;
+  content: string;
   error?: string;
 }
 
+interface RefineRound {
+  round: number;
+  critiques: Critique[];
+  /** Every critic that answered approved the draft, so nothing was revised */
+  approved: boolean;
+  changelog: string[];
+  /** The round ended without a revision (critics or synthesizer failed) */
+  error?: string;
+}
+
+/** What the refinement queries used, summed over every round */
+interface RefineUsage {
+  latency_ms: number;
+  tokens?: number;
+  /** USD, undefined when any query had no configured price */
+  cost?: number;
+}
+
+const VERDICT_LINE = /^\s*\**VERDICT:\s*(APPROVE|REVISE)\w*\**\s*\n?/i;
+const CHANGELOG_LINE = /^\s*[*#]*\s*CHANGELOG:?\s*\**\s*$/im;
+
+/** What the synthesizer returns in attribution mode */
+const ATTRIBUTION_SCHEMA = {
+  type: "object",
+  required: ["paragraphs"],
+  properties: {
+    paragraphs: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["text", "sources"],
+        properties: {
+          text: { type: "string", minLength: 1 },
+          sources: { type: "array", items: { type: "integer", minimum: 1 } },
+          novel: { type: "boolean" },
+        },
+      },
+    },
+  },
+};
+
+/** An attributed revision also says what it changed */
+const ATTRIBUTED_REVISION_SCHEMA = {
+  ...ATTRIBUTION_SCHEMA,
+  required: ["paragraphs", "changelog"],
+  properties: {
+    ...ATTRIBUTION_SCHEMA.properties,
+    changelog: { type: "array", items: { type: "string" } },
+  },
+};
+
+interface AttributedParagraph {
+  text: string;
+  /** 1-based indexes into the sources list */
+  sources: number[];
+  /** No source supports it */
+  novel: boolean;
+}
+
 export async function synthesize(
   provider: Provider,
-  input: SynthesizeInput
+  input: SynthesizeInput,
+  onProgress?: ProgressCallback,
+  imageFiles?: FileScope
 ): Promise<string> {
+  const models = expandModels(input.models, 2, 5);
+  const prompt = withImages(input.prompt, await loadImages(input.images, imageFiles));
+
   const startTime = Date.now();
 
   // Step 1: Fan out to all models in parallel
   const results = await Promise.allSettled(
-    input.models.map((model) =>
-      provider.query(model, input.prompt, {
+    models.map((model) =>
+      provider.query(model, prompt, {
         system_prompt: input.system_prompt,
         temperature: input.temperature,
         max_tokens: input.max_tokens,
+        cache: input.cache,
+        stream: onProgress !== undefined,
+        onProgress,
       })
     )
   );
@@ -67,14 +195,16 @@ export async function synthesize(
   const responses: ModelResponse[] = results.map((result, i) => {
     if (result.status === "fulfilled") {
       return {
-        model: input.models[i],
+        model: models[i],
         content: result.value.content,
         latency_ms: result.value.latency_ms,
         tokens: result.value.usage?.total_tokens,
+        cached_at: result.value.cached_at,
+        cost: costOf(models[i], result.value),
       };
     }
     return {
-      model: input.models[i],
+      model: models[i],
       content: "",
       latency_ms: 0,
       error:
@@ -92,7 +222,7 @@ export async function synthesize(
   }
 
   // Step 2: Pick a synthesizer model
-  const synthModel = input.synthesizer_model ?? await pickSynthesizer(provider, input.models);
+  const synthModel = input.synthesizer_model ?? await pickSynthesizer(provider, models.map(resolveAlias));
 
   if (!synthModel) {
     return formatWithoutSynthesis(successful, failed, Date.now() - startTime);
@@ -106,7 +236,9 @@ export async function synthesize(
     .map((r) => `## ${r.model}\n${r.content}`)
     .join("\n\n---\n\n");
 
-  const synthPrompt = `You are combining ${successful.length} AI model responses into one final answer.
+  const synthPrompt = input.attribution
+    ? attributionPrompt(input.prompt, successful)
+    : `You are combining ${successful.length} AI model responses into one final answer.
 
 Question: "${input.prompt}"
 
@@ -119,18 +251,39 @@ Write ONE definitive answer. Take the best insights from each, drop the filler.
 Keep it shorter than the longest individual response. No preamble, no "here's the synthesis." Just the answer.`;
 
   try {
-    const synthResult = await provider.query(synthModel, synthPrompt, {
-      temperature: input.temperature ?? 0.3,
-      max_tokens: input.max_tokens,
-    });
+    const synthOptions = { temperature: input.temperature ?? 0.3, max_tokens: input.max_tokens, cache: input.cache };
+    const synthResult = input.attribution
+      ? await queryAttributed(provider, synthModel, synthPrompt, ATTRIBUTION_SCHEMA, synthOptions)
+      : await provider.query(synthModel, synthPrompt, synthOptions);
 
     const synthLatency = Date.now() - synthStart;
+
+    let synthesized = synthResult.content;
+    let refinement: RefineRound[] | undefined;
+    let refineUsage: RefineUsage | undefined;
+    if ((input.refine_rounds ?? 0) > 0) {
+      ({ draft: synthesized, rounds: refinement, usage: refineUsage } = await refine(
+        provider, synthModel, synthesized, input, successful
+      ));
+    }
     const totalTime = Date.now() - startTime;
 
+    let attributed: AttributedParagraph[] | null | undefined;
+    if (input.attribution) {
+      attributed = parseAttribution(synthesized, successful.length);
+      if (!attributed) logger.warn("synthesize: synthesizer did not return usable attribution JSON");
+    }
+
     return formatSynthesis({
-      synthesized: synthResult.content,
+      synthesized,
+      attributed,
+      refinement,
+      refineUsage,
       synthModel,
       synthLatency,
+      synthCachedAt: synthResult.cached_at,
+      synthTokens: synthResult.usage?.total_tokens,
+      synthCost: costOf(synthModel, synthResult),
       sources: successful,
       failed,
       totalTime,
@@ -141,6 +294,231 @@ Keep it shorter than the longest individual response. No preamble, no "here's th
   }
 }
 
+/**
+ * Critique-and-revise loop. Never throws: a failed round is recorded and
+ * the last good draft is kept.
+ */
+async function refine(
+  provider: Provider,
+  synthModel: string,
+  draft: string,
+  input: SynthesizeInput,
+  sources: ModelResponse[]
+): Promise<{ draft: string; rounds: RefineRound[]; usage: RefineUsage }> {
+  const critics = input.critics ? expandModels(input.critics, 1, 5) : sources.map((s) => s.model);
+  const rounds: RefineRound[] = [];
+  const start = Date.now();
+  const usage: RefineUsage = { latency_ms: 0 };
+  // Tokens add up when known; one unpriced query makes the total cost unknown
+  let unpriced = false;
+  const addUsage = (tokens: number | undefined, cost: number | undefined) => {
+    if (tokens !== undefined) usage.tokens = (usage.tokens ?? 0) + tokens;
+    if (cost === undefined) unpriced = true;
+    else usage.cost = (usage.cost ?? 0) + cost;
+  };
+
+  for (let round = 1; round <= (input.refine_rounds ?? 0); round++) {
+    const readable = readableDraft(draft, input.attribution ? sources.length : 0);
+    logger.info(`synthesize: refinement round ${round}, ${critics.length} critic(s)`);
+
+    const votes = await pollModels(provider, critics, () => critiquePrompt(input.prompt, readable), {
+      temperature: 0,
+      max_tokens: input.max_tokens,
+      cache: input.cache,
+    });
+    for (const v of votes) {
+      if (!v.error) addUsage(v.tokens, v.cost);
+    }
+    const critiques: Critique[] = votes.map((v) => {
+      const verdict = VERDICT_LINE.exec(v.content);
+      return {
+        model: v.model,
+        // Approval needs an explicit verdict; anything else counts as a request to revise
+        approved: !v.error && verdict?.[1].toUpperCase() === "APPROVE",
+        content: verdict ? v.content.slice(verdict[0].length).trim() : v.content.trim(),
+        error: v.error,
+      };
+    });
+
+    const answered = critiques.filter((c) => !c.error);
+    if (answered.length === 0) {
+      rounds.push({ round, critiques, approved: false, changelog: [], error: "every critic failed" });
+      break;
+    }
+    if (answered.every((c) => c.approved)) {
+      rounds.push({ round, critiques, approved: true, changelog: [] });
+      break;
+    }
+
+    try {
+      const prompt = revisePrompt(input.prompt, readable, answered.filter((c) => !c.approved), input.attribution ? sources : undefined);
+      const options = { temperature: input.temperature ?? 0.3, max_tokens: input.max_tokens, cache: input.cache };
+      const revision = input.attribution
+        ? await queryAttributed(provider, synthModel, prompt, ATTRIBUTED_REVISION_SCHEMA, options)
+        : await provider.query(synthModel, prompt, options);
+      addUsage(revision.usage?.total_tokens, costOf(synthModel, revision));
+      const revised = splitChangelog(revision.content, input.attribution === true);
+      if (input.attribution && !parseAttribution(revised.draft, sources.length)) {
+        rounds.push({ round, critiques, approved: false, changelog: [], error: "revision was not valid attribution JSON, kept the previous draft" });
+        break;
+      }
+      draft = revised.draft;
+      rounds.push({ round, critiques, approved: false, changelog: revised.changelog });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`synthesize: revision in round ${round} failed: ${message}`);
+      rounds.push({ round, critiques, approved: false, changelog: [], error: `revision failed: ${message}` });
+      break;
+    }
+  }
+
+  usage.latency_ms = Date.now() - start;
+  if (unpriced) usage.cost = undefined;
+  return { draft, rounds, usage };
+}
+
+/**
+ * Attribution JSON through queryStructured. When it never validates, the
+ * last reply comes back as-is and parseAttribution treats it as plain text.
+ */
+async function queryAttributed(
+  provider: Provider,
+  model: string,
+  prompt: string,
+  schema: JsonSchema,
+  options: QueryOptions
+): Promise<QueryResponse> {
+  try {
+    const result = await queryStructured(provider, model, prompt, schema, options);
+    return { ...result.response, content: JSON.stringify(result.value), latency_ms: result.latency_ms };
+  } catch (err) {
+    if (!(err instanceof StructuredOutputError)) throw err;
+    logger.warn(`synthesize: ${err.message}`);
+    return err.lastResponse;
+  }
+}
+
+/** The draft as prose; attributed drafts keep their [n] citations */
+function readableDraft(draft: string, sourceCount: number): string {
+  const paragraphs = sourceCount > 0 ? parseAttribution(draft, sourceCount) : null;
+  if (!paragraphs) return draft;
+  return paragraphs
+    .map((p) => `${p.text}${p.sources.length > 0 ? ` ${p.sources.map((n) => `[${n}]`).join("")}` : ""}`)
+    .join("\n\n");
+}
+
+function critiquePrompt(question: string, draft: string): string {
+  return `You are reviewing a draft answer.
+
+Question: "${question}"
+
+Draft:
+
+${draft}
+
+List the draft's factual errors, bugs and important omissions, most serious first, as a short bullet list. Ignore style and wording.
+
+Start your reply with exactly one line: "VERDICT: APPROVE" if nothing needs fixing, or "VERDICT: REVISE" followed by your list.`;
+}
+
+function revisePrompt(
+  question: string,
+  draft: string,
+  critiques: Critique[],
+  attributionSources?: ModelResponse[]
+): string {
+  const feedback = critiques.map((c) => `### ${c.model}\n${c.content}`).join("\n\n");
+  const base = `You wrote this draft answer to the question "${question}":
+
+${draft}
+
+Reviewers found these problems:
+
+${feedback}
+
+Revise the draft. Fix the problems that are real and ignore criticism that is wrong. Keep everything that was already correct.`;
+
+  if (!attributionSources) {
+    return `${base}
+
+Reply with the full revised answer, no preamble. Then a line "CHANGELOG:" followed by one short bullet per fix.`;
+  }
+
+  const responseSummary = attributionSources
+    .map((r, i) => `## Source ${i + 1}\n${r.content}`)
+    .join("\n\n---\n\n");
+  return `${base}
+
+The numbers in brackets cite these sources:
+
+${responseSummary}
+
+Split the revised answer into paragraphs. For each paragraph, list the source numbers whose responses support it; set "novel" to true when no source supports it.
+
+Example: {"paragraphs": [{"text": "...", "sources": [1, 3], "novel": false}], "changelog": ["Fixed ...", "Added ..."]}`;
+}
+
+/** Separate the revised draft from the list of what changed */
+function splitChangelog(content: string, json: boolean): { draft: string; changelog: string[] } {
+  if (json) {
+    const parsed = parseJsonText(content) as { changelog?: unknown } | undefined;
+    const changelog = Array.isArray(parsed?.changelog)
+      ? parsed.changelog.filter((c: unknown): c is string => typeof c === "string")
+      : [];
+    return { draft: content, changelog };
+  }
+
+  const match = CHANGELOG_LINE.exec(content);
+  if (!match) return { draft: content.trim(), changelog: [] };
+  const changelog = content
+    .slice(match.index + match[0].length)
+    .split("\n")
+    .map((line) => line.replace(/^\s*[-*•\d.)]+\s*/, "").trim())
+    .filter(Boolean);
+  return { draft: content.slice(0, match.index).trim(), changelog };
+}
+
+function attributionPrompt(question: string, sources: ModelResponse[]): string {
+  const responseSummary = sources
+    .map((r, i) => `## Source ${i + 1}\n${r.content}`)
+    .join("\n\n---\n\n");
+
+  return `You are combining ${sources.length} AI model responses into one final answer, and citing where each part came from.
+
+Question: "${question}"
+
+Responses:
+
+${responseSummary}
+
+Write ONE definitive answer. Take the best insights from each, drop the filler. Keep it shorter than the longest individual response. No preamble.
+
+Split the answer into paragraphs. For each paragraph, list the source numbers whose responses support its claims. If a paragraph contains claims that none of the sources make, set "novel" to true and leave "sources" empty unless some of it is supported.
+
+Example: {"paragraphs": [{"text": "First paragraph...", "sources": [1, 3], "novel": false}, {"text": "...", "sources": [], "novel": true}]}`;
+}
+
+/**
+ * Read the synthesizer's attribution JSON. Out-of-range source numbers
+ * are dropped; a paragraph left without sources counts as novel.
+ * Returns null when there's no usable JSON.
+ */
+function parseAttribution(content: string, sourceCount: number): AttributedParagraph[] | null {
+  const parsed = parseJsonText(content) as { paragraphs?: unknown } | undefined;
+  if (!Array.isArray(parsed?.paragraphs)) return null;
+
+  const paragraphs: AttributedParagraph[] = [];
+  for (const p of parsed.paragraphs as Array<Record<string, unknown>>) {
+    if (typeof p?.text !== "string" || p.text.trim() === "") continue;
+    const cited = Array.isArray(p.sources)
+      ? p.sources.filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= sourceCount)
+      : [];
+    const sources = [...new Set(cited)].sort((a, b) => a - b);
+    paragraphs.push({ text: p.text.trim(), sources, novel: p.novel === true || sources.length === 0 });
+  }
+  return paragraphs.length > 0 ? paragraphs : null;
+}
+
 /**
  * Pick a synthesizer model. Same logic as consensus judge -
  * prefer a model not in the source list.
@@ -164,8 +542,15 @@ async function pickSynthesizer(provider: Provider, sourceModels: string[]): Prom
 
 interface SynthesisResult {
   synthesized: string;
+  /** Requested attribution; null when the synthesizer's JSON was unusable */
+  attributed?: AttributedParagraph[] | null;
+  refinement?: RefineRound[];
+  refineUsage?: RefineUsage;
   synthModel: string;
   synthLatency: number;
+  synthCachedAt?: number;
+  synthTokens?: number;
+  synthCost?: number;
   sources: ModelResponse[];
   failed: ModelResponse[];
   totalTime: number;
@@ -175,20 +560,49 @@ function formatSynthesis(result: SynthesisResult): string {
   const lines: string[] = [
     `## Synthesized Response (${result.sources.length} models, ${result.totalTime}ms total)`,
     "",
-    `**Synthesizer:** ${result.synthModel} (${result.synthLatency}ms)`,
+    `**Synthesizer:** ${result.synthModel} (${result.synthLatency}ms${result.synthCachedAt !== undefined ? `, ${describeCacheAge(result.synthCachedAt)}` : ""})`,
     `**Sources:** ${result.sources.map((s) => s.model).join(", ")}`,
     "",
-    result.synthesized,
-    "",
   ];
 
+  if (result.attributed) {
+    for (const p of result.attributed) {
+      const cites = p.sources.map((n) => `[${n}]`).join("");
+      const flag = p.novel ? " **[novel]**" : "";
+      lines.push(`${p.text}${cites ? ` ${cites}` : ""}${flag}`);
+      lines.push("");
+    }
+    lines.push(...formatAttribution(result.attributed, result.sources));
+  } else {
+    if (result.attributed === null) {
+      lines.push("*Attribution unavailable: the synthesizer didn't return valid attribution JSON. Showing its raw output.*");
+      lines.push("");
+    }
+    lines.push(result.synthesized);
+    lines.push("");
+  }
+
+  if (result.refinement) {
+    lines.push(...formatRefinement(result.refinement));
+  }
+
   // Source summary table
   lines.push("### Source Metrics");
   lines.push("");
-  lines.push("| Model | Latency | Tokens |");
-  lines.push("|-------|---------|--------|");
+  const usage = result.refineUsage;
+  const showCost =
+    result.sources.some((s) => s.cost !== undefined) || result.synthCost !== undefined || usage?.cost !== undefined;
+  const costCell = (cost: number | undefined) => (showCost ? ` ${formatCost(cost)} |` : "");
+  lines.push(`| Model | Latency | Tokens |${showCost ? " Cost |" : ""}`);
+  lines.push(`|-------|---------|--------|${showCost ? "------|" : ""}`);
   for (const s of result.sources) {
-    lines.push(`| ${s.model} | ${s.latency_ms}ms | ${s.tokens ?? "n/a"} |`);
+    const cached = s.cached_at !== undefined ? ` (${describeCacheAge(s.cached_at)})` : "";
+    lines.push(`| ${s.model} | ${s.latency_ms}ms${cached} | ${s.tokens ?? "n/a"} |${costCell(s.cost)}`);
+  }
+  lines.push(`| ${result.synthModel} (synthesizer) | ${result.synthLatency}ms | ${result.synthTokens ?? "n/a"} |${costCell(result.synthCost)}`);
+  if (usage && result.refinement) {
+    const rounds = result.refinement.length;
+    lines.push(`| refinement (${rounds} round${rounds === 1 ? "" : "s"}) | ${usage.latency_ms}ms | ${usage.tokens ?? "n/a"} |${costCell(usage.cost)}`);
   }
   lines.push("");
 
@@ -203,6 +617,54 @@ function formatSynthesis(result: SynthesisResult): string {
   return lines.join("\n");
 }
 
+function formatRefinement(rounds: RefineRound[]): string[] {
+  const revised = rounds.filter((r) => !r.approved && !r.error).length;
+  const last = rounds[rounds.length - 1];
+  const outcome = last?.approved
+    ? `approved by every critic in round ${last.round}`
+    : last?.error
+      ? `stopped in round ${last.round}: ${last.error}`
+      : "rounds ran out before every critic approved";
+
+  const lines = ["### Refinement Changelog", "", `*${revised} revision(s), ${outcome}.*`, ""];
+  for (const r of rounds) {
+    const verdicts = r.critiques
+      .map((c) => `${c.model} (${c.error ? "failed" : c.approved ? "approve" : "revise"})`)
+      .join(", ");
+    lines.push(`**Round ${r.round}** — critics: ${verdicts}`);
+    if (r.approved) {
+      lines.push("- No changes needed");
+    } else if (r.changelog.length > 0) {
+      for (const change of r.changelog) lines.push(`- ${change}`);
+    } else if (!r.error) {
+      lines.push("- Revised (the synthesizer didn't list its changes)");
+    }
+    lines.push("");
+  }
+  return lines;
+}
+
+/** Footnotes for the citation numbers, and how much each source contributed */
+function formatAttribution(paragraphs: AttributedParagraph[], sources: ModelResponse[]): string[] {
+  const lines = ["### Attribution", ""];
+  lines.push("| Source | Model | Paragraphs cited |");
+  lines.push("|--------|-------|------------------|");
+  sources.forEach((s, i) => {
+    const count = paragraphs.filter((p) => p.sources.includes(i + 1)).length;
+    lines.push(`| [${i + 1}] | ${s.model} | ${count}/${paragraphs.length} |`);
+  });
+  lines.push("");
+
+  const novel = paragraphs.filter((p) => p.novel).length;
+  lines.push(
+    novel > 0
+      ? `**Novel:** ${novel}/${paragraphs.length} paragraph(s) contain claims no source made — check them before relying on them.`
+      : "**Novel:** none — every paragraph is backed by at least one source."
+  );
+  lines.push("");
+  return lines;
+}
+
 /**
  * Fallback if no synthesizer is available - just return
  * all responses like compare_models would.
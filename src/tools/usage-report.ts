@@ -0,0 +1,182 @@
+/**
+ * usage_report — Aggregate the persistent usage log.
+ *
+ * Every query any tool makes is appended to <data_dir>/usage.jsonl. This
+ * reads it back and groups it by day, model or tool, so you can see which
+ * models actually get used, how often they fail, and what they cost.
+ *
+ * Cache hits count as queries but are left out of the latency average —
+ * a 2ms disk read says nothing about how fast the model is.
+ */
+
+import { z } from "zod";
+import { UsageRecord, UsageStore } from "../utils/usage-store.js";
+import { formatCost } from "../utils/pricing.js";
+
+export const usageReportSchema = z.object({
+  group_by: z
+    .enum(["day", "model", "tool"])
+    .optional()
+    .default("model")
+    .describe("How to group the rows"),
+  since_days: z
+    .number()
+    .positive()
+    .optional()
+    .default(30)
+    .describe("Only include queries from the last N days"),
+  model: z.string().optional().describe("Only include this model (exact model ID)"),
+  tool: z.string().optional().describe("Only include queries made by this tool, e.g. 'consensus'"),
+});
+
+export type UsageReportInput = z.infer<typeof usageReportSchema>;
+
+interface UsageGroup {
+  key: string;
+  queries: number;
+  errors: number;
+  cached: number;
+  fallbacks: number;
+  /** Latency of fresh (non-cached) successful queries */
+  latencyTotal: number;
+  latencyCount: number;
+  tokens: number;
+  cost: number;
+  priced: number;
+}
+
+export async function usageReport(store: UsageStore, input: UsageReportInput): Promise<string> {
+  const groupBy = input.group_by ?? "model";
+  const sinceDays = input.since_days ?? 30;
+  const since = Date.now() - sinceDays * 24 * 60 * 60 * 1000;
+
+  const groups = new Map<string, UsageGroup>();
+  const total = emptyGroup("**Total**");
+  const errorCounts = new Map<string, number>();
+
+  for await (const record of store.read(since)) {
+    if (input.model && record.model !== input.model) continue;
+    if (input.tool && record.tool !== input.tool) continue;
+
+    const key = groupKey(record, groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = emptyGroup(key);
+      groups.set(key, group);
+    }
+    addRecord(group, record);
+    addRecord(total, record);
+
+    if (record.status === "error" && record.error) {
+      const label = `${record.model}: ${record.error}`;
+      errorCounts.set(label, (errorCounts.get(label) ?? 0) + 1);
+    }
+  }
+
+  return formatReport([...groups.values()], total, errorCounts, groupBy, sinceDays, input);
+}
+
+function groupKey(record: UsageRecord, groupBy: string): string {
+  switch (groupBy) {
+    case "day":
+      return new Date(record.ts).toISOString().slice(0, 10);
+    case "tool":
+      return record.tool;
+    default:
+      return record.model;
+  }
+}
+
+function emptyGroup(key: string): UsageGroup {
+  return {
+    key,
+    queries: 0,
+    errors: 0,
+    cached: 0,
+    fallbacks: 0,
+    latencyTotal: 0,
+    latencyCount: 0,
+    tokens: 0,
+    cost: 0,
+    priced: 0,
+  };
+}
+
+function addRecord(group: UsageGroup, record: UsageRecord): void {
+  group.queries++;
+  if (record.status === "error") {
+    group.errors++;
+    return;
+  }
+  if (record.fallback_from) group.fallbacks++;
+  if (record.cached) {
+    group.cached++;
+  } else {
+    group.latencyTotal += record.latency_ms;
+    group.latencyCount++;
+  }
+  group.tokens += record.total_tokens ?? 0;
+  if (record.cost_usd !== undefined) {
+    group.cost += record.cost_usd;
+    group.priced++;
+  }
+}
+
+function formatReport(
+  groups: UsageGroup[],
+  total: UsageGroup,
+  errorCounts: Map<string, number>,
+  groupBy: string,
+  sinceDays: number,
+  input: UsageReportInput
+): string {
+  const filters = [
+    input.model ? `model ${input.model}` : undefined,
+    input.tool ? `tool ${input.tool}` : undefined,
+  ].filter(Boolean);
+  const scope = `last ${sinceDays} day${sinceDays === 1 ? "" : "s"}${filters.length > 0 ? `, ${filters.join(", ")}` : ""}`;
+
+  if (total.queries === 0) {
+    return `No queries recorded (${scope}).`;
+  }
+
+  // Days read best in order; models and tools by how much they're used
+  if (groupBy === "day") {
+    groups.sort((a, b) => a.key.localeCompare(b.key));
+  } else {
+    groups.sort((a, b) => b.queries - a.queries);
+  }
+
+  const lines: string[] = [
+    `## Usage by ${groupBy} (${scope})`,
+    "",
+    `| ${capitalize(groupBy)} | Queries | Errors | Avg latency | Tokens | Fallbacks | Cached | Cost |`,
+    "|---|---------|--------|-------------|--------|-----------|--------|------|",
+  ];
+  for (const g of [...groups, total]) {
+    lines.push(formatRow(g));
+  }
+  lines.push("");
+
+  if (errorCounts.size > 0) {
+    lines.push("### Most common errors");
+    const top = [...errorCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5);
+    for (const [label, count] of top) {
+      lines.push(`- ${count}× ${label}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function formatRow(g: UsageGroup): string {
+  const errorRate = ((g.errors / g.queries) * 100).toFixed(0);
+  const latency = g.latencyCount > 0 ? `${Math.round(g.latencyTotal / g.latencyCount)}ms` : "n/a";
+  const cost = g.priced > 0 ? formatCost(g.cost) : "n/a";
+  return `| ${g.key} | ${g.queries} | ${g.errors} (${errorRate}%) | ${latency} | ${g.tokens} | ${g.fallbacks} | ${g.cached} | ${cost} |`;
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
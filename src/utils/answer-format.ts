@@ -0,0 +1,178 @@
+/**
+ * Answer formats — deterministic answer extraction for consensus.
+ *
+ * For multiple-choice, numeric, yes/no and structured questions there's no
+ * need for a judge model to decide whether answers "agree": we ask every
+ * model to end with a parseable final answer, pull it out with plain
+ * parsing, and count identical answers.
+ *
+ * Formats:
+ * - choice:     one of a set of labels ("A".."D" unless choices are given)
+ * - number:     a number; answers within `tolerance` of each other agree
+ * - boolean:    yes/no, true/false
+ * - json_field: a field (dot path allowed) of a JSON object at the end
+ *
+ * A response whose answer can't be parsed is "unparseable": it counts as
+ * a voter but never agrees with anyone.
+ */
+
+export type AnswerFormat = "choice" | "number" | "boolean" | "json_field";
+
+export interface AnswerSpec {
+  format: AnswerFormat;
+  /** choice: allowed answers, matched case-insensitively */
+  choices?: string[];
+  /** number: max absolute difference for two answers to agree */
+  tolerance?: number;
+  /** json_field: dot path of the field to compare, e.g. "verdict" or "result.id" */
+  field?: string;
+}
+
+export interface AnswerBucket<T> {
+  /** Display form of the answer, e.g. "B", "42", "yes" */
+  answer: string;
+  voters: T[];
+}
+
+const DEFAULT_CHOICES = ["A", "B", "C", "D"];
+const FINAL_LINE = /^[\s*_>#-]*FINAL ANSWER\s*[:：]\s*(.+?)\s*$/gim;
+
+/** Instructions appended to the prompt so answers come back parseable */
+export function answerInstruction(spec: AnswerSpec): string {
+  switch (spec.format) {
+    case "choice":
+      return `End your response with a final line in exactly this form: "FINAL ANSWER: <choice>", where <choice> is one of: ${(spec.choices ?? DEFAULT_CHOICES).join(", ")}.`;
+    case "number":
+      return `End your response with a final line in exactly this form: "FINAL ANSWER: <number>" — digits only, no units, no thousands separators.`;
+    case "boolean":
+      return `End your response with a final line in exactly this form: "FINAL ANSWER: yes" or "FINAL ANSWER: no".`;
+    case "json_field":
+      return `End your response with a single JSON object on its own lines (no code fence needed) that contains the field "${spec.field}".`;
+  }
+}
+
+/**
+ * Pull the answer out of a response and normalize it so equal answers
+ * compare equal. Returns undefined when nothing parseable is there.
+ */
+export function extractAnswer(content: string, spec: AnswerSpec): string | undefined {
+  switch (spec.format) {
+    case "choice": {
+      const raw = lastFinalAnswer(content);
+      return raw !== undefined ? matchChoice(raw, spec.choices ?? DEFAULT_CHOICES) : undefined;
+    }
+    case "number": {
+      const raw = lastFinalAnswer(content);
+      const value = raw !== undefined ? parseNumber(raw) : undefined;
+      return value !== undefined ? String(value) : undefined;
+    }
+    case "boolean": {
+      const raw = lastFinalAnswer(content)?.toLowerCase().replace(/[^a-z]/g, "");
+      if (raw === "yes" || raw === "true") return "yes";
+      if (raw === "no" || raw === "false") return "no";
+      return undefined;
+    }
+    case "json_field":
+      return extractJsonField(content, spec.field ?? "");
+  }
+}
+
+/**
+ * Group voters by answer, largest bucket first. Numbers are clustered:
+ * each bucket holds answers within `tolerance` of its smallest value.
+ */
+export function tallyAnswers<T>(
+  voters: T[],
+  answerOf: (voter: T) => string | undefined,
+  spec: AnswerSpec
+): { buckets: AnswerBucket<T>[]; unparseable: T[] } {
+  const unparseable: T[] = [];
+  const parsed: Array<{ voter: T; answer: string }> = [];
+  for (const voter of voters) {
+    const answer = answerOf(voter);
+    if (answer === undefined) unparseable.push(voter);
+    else parsed.push({ voter, answer });
+  }
+
+  const buckets: AnswerBucket<T>[] = [];
+  if (spec.format === "number") {
+    const tolerance = spec.tolerance ?? 0;
+    const sorted = [...parsed].sort((a, b) => Number(a.answer) - Number(b.answer));
+    let cluster: { min: string; max: string; voters: T[] } | undefined;
+    const clusters: Array<{ min: string; max: string; voters: T[] }> = [];
+    for (const { voter, answer } of sorted) {
+      if (!cluster || Number(answer) - Number(cluster.min) > tolerance) {
+        cluster = { min: answer, max: answer, voters: [] };
+        clusters.push(cluster);
+      }
+      cluster.max = answer;
+      cluster.voters.push(voter);
+    }
+    // Label clusters by their range so "41.9–42.1" reads as one answer
+    for (const c of clusters) {
+      buckets.push({ answer: c.min === c.max ? c.min : `${c.min}–${c.max}`, voters: c.voters });
+    }
+  } else {
+    const byAnswer = new Map<string, T[]>();
+    for (const { voter, answer } of parsed) {
+      byAnswer.set(answer, [...(byAnswer.get(answer) ?? []), voter]);
+    }
+    for (const [answer, group] of byAnswer) buckets.push({ answer, voters: group });
+  }
+
+  // Stable: on a tie the answer seen first stays first
+  buckets.sort((a, b) => b.voters.length - a.voters.length);
+  return { buckets, unparseable };
+}
+
+function lastFinalAnswer(content: string): string | undefined {
+  let last: string | undefined;
+  for (const match of content.matchAll(FINAL_LINE)) last = match[1];
+  return last?.replace(/^[*_`"'(\[]+|[*_`"').\]]+$/g, "").trim();
+}
+
+function matchChoice(raw: string, choices: string[]): string | undefined {
+  const lower = raw.toLowerCase();
+  const exact = choices.find((c) => c.toLowerCase() === lower);
+  if (exact) return exact;
+
+  // "B) Paris", "B. Paris" or "B - Paris" → "B"
+  const label = /^([^\s).:-]+)\s*[).:-]/.exec(raw)?.[1].toLowerCase();
+  return label ? choices.find((c) => c.toLowerCase() === label) : undefined;
+}
+
+function parseNumber(raw: string): number | undefined {
+  const match = /[-+]?(?:\d[\d,_]*)?\.?\d+(?:e[-+]?\d+)?/i.exec(raw);
+  if (!match) return undefined;
+  const value = Number(match[0].replace(/[,_]/g, ""));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** The last {...} block that parses as JSON and has the field */
+function extractJsonField(content: string, field: string): string | undefined {
+  const path = field.split(".").filter(Boolean);
+  if (path.length === 0) return undefined;
+
+  const cleaned = content.replace(/```(?:json)?/g, "");
+  const starts = [...cleaned.matchAll(/\{/g)].map((m) => m.index!).reverse();
+  const end = cleaned.lastIndexOf("}");
+  if (end < 0) return undefined;
+
+  for (const start of starts) {
+    if (start > end) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+      continue;
+    }
+
+    let value: unknown = parsed;
+    for (const key of path) {
+      value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) continue;
+    return typeof value === "string" ? value.trim().toLowerCase() : JSON.stringify(value);
+  }
+  return undefined;
+}
@@ -0,0 +1,192 @@
+/**
+ * Auto router — picks models for "auto" (ask_model) and "auto:N" (fan-out tools).
+ *
+ * Every candidate gets a score from what HydraMCP already knows:
+ * - "auto.prefer" in config: models favored for this prompt category
+ * - reasoning capability (isReasoningModel): a bonus for categories listed
+ *   in "auto.reasoning_for" (math by default), a small speed penalty otherwise
+ * - circuit breaker: open circuits are skipped, half-open ones penalized,
+ *   and the window failure rate counts against the model
+ * - recent latency, scaled by "auto.latency_weight"
+ *
+ * Candidates come from "auto.candidates" (models, aliases or @groups), or
+ * every listed model when that isn't set. The reasons behind each pick are
+ * kept so tool output can explain the choice.
+ */
+
+import { MultiProvider } from "../providers/multi-provider.js";
+import { CircuitStats } from "./circuit-breaker.js";
+import { getConfig } from "./config.js";
+import { expandGroups, resolveAlias } from "./model-aliases.js";
+import { classifyPrompt, PromptCategory } from "./prompt-classifier.js";
+import { isReasoningModel } from "./reasoning-models.js";
+
+const AUTO_PATTERN = /^auto(?::(\d+))?$/;
+
+export interface RoutedModel {
+  model: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface RouteDecision {
+  category: PromptCategory;
+  picks: RoutedModel[];
+  /** How many picks were asked for; picks is shorter when too few candidates are healthy */
+  wanted: number;
+  /** Candidates left out because their circuit is open */
+  skipped: string[];
+}
+
+export function isAutoModel(model: string): boolean {
+  return AUTO_PATTERN.test(model);
+}
+
+export class AutoRouter {
+  private multi: MultiProvider;
+
+  constructor(multi: MultiProvider) {
+    this.multi = multi;
+  }
+
+  /**
+   * Replace "auto" / "auto:N" entries with routed models. Models the caller
+   * named explicitly (directly or through a group) are never picked twice.
+   * With fewer healthy candidates than asked for, the later auto entries
+   * get fewer models and the decision says so. Returns the decision so the
+   * caller can explain it; no decision when nothing was auto.
+   */
+  async resolve(
+    models: string[],
+    prompt: string
+  ): Promise<{ models: string[]; decision?: RouteDecision }> {
+    const wanted = models.reduce((n, m) => n + autoCount(m), 0);
+    if (wanted === 0) return { models };
+
+    const explicit = models.filter((m) => !isAutoModel(m));
+    const decision = await this.route(prompt, wanted, explicit);
+    if (decision.picks.length === 0) {
+      throw new Error(
+        `auto routing found no healthy candidates${decision.skipped.length > 0 ? ` (open circuits: ${decision.skipped.join(", ")})` : ""}`
+      );
+    }
+
+    const picked = decision.picks.map((p) => p.model);
+    const resolved: string[] = [];
+    for (const m of models) {
+      if (isAutoModel(m)) resolved.push(...picked.splice(0, autoCount(m)));
+      else resolved.push(m);
+    }
+    return { models: resolved, decision };
+  }
+
+  /** Rank candidates for this prompt and return the best `count` */
+  async route(prompt: string, count: number, exclude: string[] = []): Promise<RouteDecision> {
+    const config = getConfig().auto;
+    const category = classifyPrompt(prompt);
+
+    // Aliases and groups can name the same model twice; keep the first spelling
+    const seen = new Set(expandGroups(exclude).map(resolveAlias));
+    const candidates = (config.candidates
+      ? expandGroups(config.candidates)
+      : (await this.multi.listModels()).map((m) => m.id)
+    ).filter((m) => {
+      const resolved = resolveAlias(m);
+      if (seen.has(resolved)) return false;
+      seen.add(resolved);
+      return true;
+    });
+
+    const preferred = config.prefer[category] ?? [];
+    const reasoningWanted = config.reasoning_for.includes(category);
+    const health = this.multi.getHealth();
+
+    const scored: RoutedModel[] = [];
+    const skipped: string[] = [];
+    for (const model of candidates) {
+      const resolved = resolveAlias(model);
+      const key = circuitKey(health, resolved);
+      const stats = key ? health[key] : undefined;
+
+      if (stats?.state === "OPEN" && stats.cooldownRemainingMs > 0) {
+        skipped.push(model);
+        continue;
+      }
+
+      let score = 0;
+      const reasons: string[] = [];
+
+      const rank = preferred.findIndex((p) => p === model || resolveAlias(p) === resolved);
+      if (rank >= 0) {
+        score += Math.max(1, 3 - rank * 0.5);
+        reasons.push(`preferred for ${category}${preferred.length > 1 ? ` (#${rank + 1})` : ""}`);
+      }
+
+      if (isReasoningModel(resolved)) {
+        if (reasoningWanted) {
+          score += 1.5;
+          reasons.push(`reasoning model suits ${category}`);
+        } else {
+          score -= 0.5;
+          reasons.push("reasoning model, slower for this prompt");
+        }
+      }
+
+      if (stats && stats.totalRequests > 0) {
+        score -= stats.failureRate * 3;
+        if (stats.state === "HALF_OPEN") {
+          score -= 2;
+          reasons.push("recovering (half-open circuit)");
+        } else {
+          reasons.push(`${Math.round(stats.failureRate * 100)}% recent failures`);
+        }
+      }
+
+      const latency = key ? this.multi.getLatency(key) : undefined;
+      if (latency !== undefined) {
+        score -= Math.min(3, (latency / 10_000) * config.latency_weight);
+        reasons.push(`~${(latency / 1000).toFixed(1)}s recent latency`);
+      }
+
+      if (reasons.length === 0) reasons.push("no history yet");
+      scored.push({ model, score, reasons });
+    }
+
+    // Stable sort keeps candidate order on ties, so config order is the tie-breaker
+    scored.sort((a, b) => b.score - a.score);
+    return { category, picks: scored.slice(0, count), wanted: count, skipped };
+  }
+}
+
+/** One markdown line per pick, for the top of a tool result */
+export function formatRouting(decision: RouteDecision): string {
+  const lines = decision.picks.map(
+    (p) => `> **Auto-routed** (${decision.category} prompt) → \`${p.model}\`: ${p.reasons.join(", ")}`
+  );
+  if (decision.picks.length < decision.wanted) {
+    lines.push(`> Only ${decision.picks.length} of ${decision.wanted} requested auto models available`);
+  }
+  if (decision.skipped.length > 0) {
+    lines.push(`> Skipped (circuit open): ${decision.skipped.join(", ")}`);
+  }
+  return lines.join("\n") + "\n\n";
+}
+
+function autoCount(model: string): number {
+  const match = AUTO_PATTERN.exec(model);
+  if (!match) return 0;
+  if (!match[1]) return 1;
+  const count = parseInt(match[1], 10);
+  if (count < 1) throw new Error(`"${model}" asks for no models; use auto:1 or more`);
+  return count;
+}
+
+/**
+ * Circuits are keyed by "provider/model". An unprefixed candidate
+ * matches whichever backend has served it; returns that key.
+ */
+function circuitKey(health: Record<string, CircuitStats>, model: string): string | undefined {
+  if (health[model]) return model;
+  if (model.includes("/")) return undefined;
+  return Object.keys(health).find((key) => key.endsWith(`/${model}`));
+}
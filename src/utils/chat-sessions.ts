@@ -0,0 +1,130 @@
+/**
+ * Chat sessions — server-side conversation history for the chat tool.
+ *
+ * Each session remembers its model, system prompt and every user/assistant
+ * turn, so follow-up questions don't have to re-paste the whole exchange.
+ * Sessions live in memory for the lifetime of the server process.
+ * When the cap is hit, the least recently used session is evicted.
+ *
+ * Turns on one session run one at a time (exclusive()): two overlapping
+ * calls would otherwise both answer from the same history and append in
+ * whatever order they finish.
+ */
+
+import crypto from "node:crypto";
+import { ChatMessage } from "../providers/provider.js";
+import { logger } from "./logger.js";
+
+export interface ChatSession {
+  id: string;
+  model: string;
+  system_prompt?: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  /** Set when this session was forked from another one */
+  forkedFrom?: string;
+}
+
+export class SessionNotFoundError extends Error {
+  name = "SessionNotFoundError" as const;
+  constructor(id: string) {
+    super(`No chat session with id "${id}". Use chat_sessions with action "list" to see active sessions.`);
+  }
+}
+
+export class ChatSessionStore {
+  private sessions: Map<string, ChatSession> = new Map();
+  private maxSessions: number;
+  /** Last queued turn per session, while any are pending */
+  private turns: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options?: { maxSessions?: number }) {
+    this.maxSessions = options?.maxSessions ?? 100;
+  }
+
+  create(model: string, systemPrompt?: string): ChatSession {
+    const now = Date.now();
+    const session: ChatSession = {
+      id: crypto.randomUUID().slice(0, 8),
+      model,
+      system_prompt: systemPrompt,
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.sessions.set(session.id, session);
+    this.evictIfNeeded();
+    return session;
+  }
+
+  get(id: string): ChatSession {
+    const session = this.sessions.get(id);
+    if (!session) throw new SessionNotFoundError(id);
+    return session;
+  }
+
+  /**
+   * Run fn once every earlier exclusive() call for the same session has
+   * settled, so each turn sees the history the previous one left.
+   */
+  async exclusive<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.turns.get(id) ?? Promise.resolve();
+    const turn = previous.catch(() => undefined).then(fn);
+    this.turns.set(id, turn);
+    try {
+      return await turn;
+    } finally {
+      if (this.turns.get(id) === turn) this.turns.delete(id);
+    }
+  }
+
+  /** Record a completed exchange. Only called after the model answered. */
+  append(id: string, user: ChatMessage, assistant: ChatMessage, model: string): void {
+    const session = this.get(id);
+    session.messages.push(user, assistant);
+    session.model = model;
+    session.updatedAt = Date.now();
+  }
+
+  /**
+   * Copy a session under a new id. keepTurns trims the copy to its first
+   * N user/assistant exchanges, so you can branch from an earlier point.
+   */
+  fork(id: string, keepTurns?: number): ChatSession {
+    const source = this.get(id);
+    const messages =
+      keepTurns !== undefined ? source.messages.slice(0, keepTurns * 2) : source.messages;
+
+    const fork = this.create(source.model, source.system_prompt);
+    fork.messages = messages.map((m) => ({ ...m }));
+    fork.forkedFrom = source.id;
+    return fork;
+  }
+
+  delete(id: string): void {
+    if (!this.sessions.delete(id)) throw new SessionNotFoundError(id);
+  }
+
+  clear(): number {
+    const count = this.sessions.size;
+    this.sessions.clear();
+    return count;
+  }
+
+  list(): ChatSession[] {
+    return [...this.sessions.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private evictIfNeeded(): void {
+    while (this.sessions.size > this.maxSessions) {
+      let oldest: ChatSession | undefined;
+      for (const s of this.sessions.values()) {
+        if (!oldest || s.updatedAt < oldest.updatedAt) oldest = s;
+      }
+      if (!oldest) return;
+      this.sessions.delete(oldest.id);
+      logger.info(`chat: evicted session ${oldest.id} (limit ${this.maxSessions})`);
+    }
+  }
+}
@@ -1,9 +1,25 @@
 /**
  * Circuit breaker — fast-fail for models that are consistently broken.
  * Prevents wasting time/tokens on providers that are down.
+ *
+ * Circuits can also be reset or forced open by hand (provider_health tool),
+ * e.g. to stop traffic to a model you know is misbehaving.
+ *
+ * With a statePath, circuits are saved to disk (debounced, write-then-rename)
+ * and restored on startup, so a restarted server doesn't have to rediscover
+ * that a model is down. Entries idle for longer than stateTtlMs are dropped
+ * on load unless they are still cooling down. A circuit saved mid-probe
+ * (HALF_OPEN) comes back OPEN with its cooldown spent, so the next request
+ * probes again instead of the interrupted probe's result being lost.
  */
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
 import { logger } from "./logger.js";
 
+/** Coalesce bursts of results (a fan-out) into one state file write */
+const SAVE_DEBOUNCE_MS = 500;
+
 export class CircuitOpenError extends Error {
   name = "CircuitOpenError";
   constructor(model: string, cooldownRemaining: number) {
@@ -11,20 +27,44 @@ export class CircuitOpenError extends Error {
   }
 }
 
-type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
 
-interface CircuitStats {
+export interface CircuitStats {
   state: CircuitState;
   failures: number;
   successes: number;
   totalRequests: number;
   lastFailure?: number;
+  /** Failures / requests in the current window (0 when empty) */
+  failureRate: number;
+  /** Time left before an OPEN circuit lets a probe through; 0 otherwise */
+  cooldownRemainingMs: number;
 }
 
 interface CircuitData {
   state: CircuitState;
   results: boolean[]; // true=success, false=failure, sliding window
   openedAt: number;
+  /** Cooldown override for this opening, set when forced open by hand */
+  cooldownMs?: number;
+  /** Last time a result was recorded or the state changed */
+  updatedAt: number;
+}
+
+interface SavedState {
+  version: 1;
+  saved_at: number;
+  circuits: Record<string, CircuitData>;
+}
+
+export interface CircuitBreakerOptions {
+  windowSize?: number;
+  failureThreshold?: number;
+  cooldownMs?: number;
+  /** Persist circuits to this JSON file and restore them on startup */
+  statePath?: string;
+  /** Drop restored circuits that have been idle this long (default 1h) */
+  stateTtlMs?: number;
 }
 
 export class CircuitBreaker {
@@ -34,16 +74,24 @@ export class CircuitBreaker {
 
   private circuits: Map<string, CircuitData> = new Map();
 
-  constructor(options?: { windowSize?: number; failureThreshold?: number; cooldownMs?: number }) {
+  private statePath?: string;
+  private stateTtlMs: number;
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options?: CircuitBreakerOptions) {
     this.windowSize = options?.windowSize ?? 10;
     this.failureThreshold = options?.failureThreshold ?? 0.3;
     this.cooldownMs = options?.cooldownMs ?? 60_000;
+    this.statePath = options?.statePath;
+    this.stateTtlMs = options?.stateTtlMs ?? 60 * 60 * 1000;
+    if (this.statePath) this.restore(this.statePath);
   }
 
   private getCircuit(model: string): CircuitData {
     let circuit = this.circuits.get(model);
     if (!circuit) {
-      circuit = { state: "CLOSED", results: [], openedAt: 0 };
+      circuit = { state: "CLOSED", results: [], openedAt: 0, updatedAt: Date.now() };
       this.circuits.set(model, circuit);
     }
     return circuit;
@@ -53,12 +101,14 @@ export class CircuitBreaker {
     const circuit = this.getCircuit(model);
 
     if (circuit.state === "OPEN") {
-      const elapsed = Date.now() - circuit.openedAt;
-      if (elapsed >= this.cooldownMs) {
+      const remaining = this.cooldownRemaining(circuit);
+      if (remaining <= 0) {
         circuit.state = "HALF_OPEN";
+        circuit.cooldownMs = undefined;
+        this.changed(circuit);
         logger.info(`Circuit HALF_OPEN for "${model}" — allowing test request`);
       } else {
-        throw new CircuitOpenError(model, this.cooldownMs - elapsed);
+        throw new CircuitOpenError(model, remaining);
       }
     }
 
@@ -93,6 +143,7 @@ export class CircuitBreaker {
     if (circuit.results.length > this.windowSize) {
       circuit.results = circuit.results.slice(-this.windowSize);
     }
+    this.changed(circuit);
   }
 
   private checkThreshold(model: string): void {
@@ -112,6 +163,33 @@ export class CircuitBreaker {
     }
   }
 
+  private cooldownRemaining(circuit: CircuitData): number {
+    if (circuit.state !== "OPEN") return 0;
+    const cooldown = circuit.cooldownMs ?? this.cooldownMs;
+    return Math.max(0, cooldown - (Date.now() - circuit.openedAt));
+  }
+
+  /** Close the circuit and forget its window, as if the model had never failed */
+  reset(model: string): void {
+    const circuit: CircuitData = { state: "CLOSED", results: [], openedAt: 0, updatedAt: 0 };
+    this.circuits.set(model, circuit);
+    this.changed(circuit);
+    logger.info(`Circuit RESET for "${model}"`);
+  }
+
+  /**
+   * Open the circuit now. After cooldownMs (default: the configured
+   * cooldown) it goes HALF_OPEN and probes like any other open circuit.
+   */
+  forceOpen(model: string, cooldownMs?: number): void {
+    const circuit = this.getCircuit(model);
+    circuit.state = "OPEN";
+    circuit.openedAt = Date.now();
+    circuit.cooldownMs = cooldownMs;
+    this.changed(circuit);
+    logger.warn(`Circuit forced OPEN for "${model}" (${Math.ceil((cooldownMs ?? this.cooldownMs) / 1000)}s)`);
+  }
+
   getStats(model: string): CircuitStats {
     const circuit = this.getCircuit(model);
     const failures = circuit.results.filter((r) => !r).length;
@@ -123,6 +201,8 @@ export class CircuitBreaker {
       successes,
       totalRequests: circuit.results.length,
       lastFailure: lastFailureIdx >= 0 ? circuit.openedAt || undefined : undefined,
+      failureRate: circuit.results.length > 0 ? failures / circuit.results.length : 0,
+      cooldownRemainingMs: this.cooldownRemaining(circuit),
     };
   }
 
@@ -133,4 +213,97 @@ export class CircuitBreaker {
     }
     return summary;
   }
+
+  /** Write pending state now instead of waiting for the debounce */
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.queueSave();
+    }
+    return this.saving;
+  }
+
+  private changed(circuit: CircuitData): void {
+    circuit.updatedAt = Date.now();
+    if (!this.statePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.queueSave();
+    }, SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref();
+  }
+
+  private queueSave(): void {
+    const path = this.statePath;
+    if (!path) return;
+
+    this.saving = this.saving
+      .then(async () => {
+        const circuits: Record<string, CircuitData> = {};
+        for (const [model, circuit] of this.circuits) {
+          // Untouched closed circuits carry no information
+          if (circuit.state === "CLOSED" && circuit.results.length === 0) continue;
+          circuits[model] = circuit;
+        }
+        const state: SavedState = { version: 1, saved_at: Date.now(), circuits };
+
+        await mkdir(dirname(path), { recursive: true });
+        const tmp = `${path}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(state), "utf-8");
+        await rename(tmp, path);
+      })
+      .catch((err) => {
+        logger.warn(`Circuit breaker: failed to save ${path}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  /** Synchronous so the first query after startup already sees restored circuits */
+  private restore(path: string): void {
+    let state: SavedState;
+    try {
+      state = JSON.parse(readFileSync(path, "utf-8")) as SavedState;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn(`Circuit breaker: ignoring unreadable ${path}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return;
+    }
+    if (state?.version !== 1 || typeof state.circuits !== "object" || state.circuits === null) {
+      logger.warn(`Circuit breaker: ignoring ${path} (unknown format)`);
+      return;
+    }
+
+    const now = Date.now();
+    let restored = 0;
+    let open = 0;
+    for (const [model, saved] of Object.entries(state.circuits)) {
+      if (!Array.isArray(saved.results) || typeof saved.openedAt !== "number") continue;
+
+      const circuit: CircuitData = {
+        state: saved.state === "OPEN" || saved.state === "HALF_OPEN" ? "OPEN" : "CLOSED",
+        results: saved.results.filter((r) => typeof r === "boolean").slice(-this.windowSize),
+        openedAt: saved.openedAt,
+        cooldownMs: typeof saved.cooldownMs === "number" ? saved.cooldownMs : undefined,
+        updatedAt: typeof saved.updatedAt === "number" ? saved.updatedAt : state.saved_at,
+      };
+
+      // The probe that was in flight never reported back: expire the cooldown so the next request probes again
+      if (saved.state === "HALF_OPEN") {
+        circuit.openedAt = 0;
+        circuit.cooldownMs = undefined;
+      }
+
+      const stale = now - circuit.updatedAt > this.stateTtlMs;
+      if (stale && this.cooldownRemaining(circuit) <= 0) continue;
+
+      this.circuits.set(model, circuit);
+      restored++;
+      if (circuit.state === "OPEN") open++;
+    }
+
+    if (restored > 0) {
+      logger.info(`Circuit breaker: restored ${restored} circuit(s) from ${path} (${open} open)`);
+    }
+  }
 }
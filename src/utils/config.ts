@@ -0,0 +1,534 @@
+/**
+ * Hydra config — one validated file instead of a dozen env vars.
+ *
+ * Looks for HYDRA_CONFIG (a path), else hydra.config.json in the project
+ * root. Every section is optional. Anything the file doesn't set falls back
+ * to the legacy env vars (CLIPROXYAPI_URL, HYDRA_FALLBACKS,
+ * HYDRA_REASONING_TIMEOUT_MS, ...) and then to built-in defaults, so
+ * existing .env setups keep working unchanged.
+ *
+ * The file is validated with Zod at startup; a bad file is fatal and the
+ * error lists every offending field. While running, the file is watched:
+ * fallbacks, blocklists, aliases, groups, consensus weights, timeouts, retry policy, pricing and budgets reload
+ * in place. Provider, circuit breaker, data_dir, cache, usage_log and
+ * http changes need a restart. A bad edit is logged and the previous config stays active.
+ */
+
+import { readFileSync, existsSync, watch, FSWatcher } from "node:fs";
+import { resolve, dirname, basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { logger } from "./logger.js";
+
+const endpointSchema = z
+  .object({
+    baseUrl: z.string().url(),
+    name: z.string().optional(),
+    apiKey: z.string().optional(),
+    /** Read the key from this env var instead of inlining it */
+    apiKeyEnv: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const endpointsSchema = z.record(
+  z.string().regex(/^[A-Za-z0-9_-]+$/, "prefix may only contain letters, digits, _ and -"),
+  endpointSchema
+);
+
+const priceSchema = z
+  .object({
+    /** USD per million prompt tokens */
+    input_per_mtok: z.number().nonnegative(),
+    /** USD per million completion tokens (thinking included) */
+    output_per_mtok: z.number().nonnegative(),
+    /** USD per million prompt-cache reads; defaults to the input price */
+    cache_read_per_mtok: z.number().nonnegative().optional(),
+    /** USD per million prompt-cache writes; defaults to the input price */
+    cache_write_per_mtok: z.number().nonnegative().optional(),
+  })
+  .strict();
+
+const providerSchema = z
+  .object({
+    /** Defaults to true for cliproxy/ollama, and to "has an API key" for anthropic/gemini */
+    enabled: z.boolean().optional(),
+    baseUrl: z.string().url().optional(),
+    apiKey: z.string().optional(),
+    apiKeyEnv: z.string().optional(),
+  })
+  .strict();
+
+/** Alias and group names are used bare in tool calls, so no "/" and no leading "@" */
+const modelNameKey = z
+  .string()
+  .regex(/^[A-Za-z0-9_.:-]+$/, "name may only contain letters, digits, _ . : and -");
+
+export const hydraConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    providers: z
+      .object({
+        cliproxy: providerSchema.optional(),
+        ollama: providerSchema.optional(),
+        anthropic: providerSchema.optional(),
+        gemini: providerSchema.optional(),
+        openai_compatible: endpointsSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    fallbacks: z.record(z.array(z.string()).min(1)).optional(),
+    blocked_models: z.array(z.string()).optional(),
+    /** Models that accept images, on top of the built-in list in vision-models.ts */
+    vision_models: z.array(z.string()).optional(),
+    /** Short names for models: "fast" → "cliproxy/gemini-2.5-flash". May point at other aliases. */
+    aliases: z.record(modelNameKey, z.string().min(1)).optional(),
+    /** Named model lists, used as "@name" in the fan-out tools' models arrays */
+    groups: z
+      .record(
+        modelNameKey,
+        z.array(z.string().min(1).refine((m) => !m.startsWith("@"), "groups can't contain other groups")).min(1)
+      )
+      .optional(),
+    /** How model "auto" / "auto:N" picks models */
+    auto: z
+      .object({
+        /** Models, aliases or @groups to choose from; default is every listed model */
+        candidates: z.array(z.string().min(1)).min(1).optional(),
+        /** Per prompt category, models to favor (earlier = stronger preference) */
+        prefer: z
+          .object({
+            code: z.array(z.string().min(1)).optional(),
+            math: z.array(z.string().min(1)).optional(),
+            general: z.array(z.string().min(1)).optional(),
+          })
+          .strict()
+          .optional(),
+        /** Categories where reasoning models get a bonus instead of a speed penalty */
+        reasoning_for: z.array(z.enum(["code", "math", "general"])).optional(),
+        /** How much recent latency counts against a model (0 ignores it) */
+        latency_weight: z.number().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Vote weights for consensus's "weighted" strategy */
+    consensus_weights: z
+      .object({
+        /** Fixed weights by alias, bare name or full model ID; these win over learned weights */
+        models: z.record(z.number().positive()).optional(),
+        /** Learn weights from past consensus outcomes (<data_dir>/consensus-weights.json) */
+        learn: z.boolean().optional(),
+        /** Outcomes a model needs before its learned weight is used */
+        min_samples: z.number().int().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    timeouts: z
+      .object({
+        default_ms: z.number().int().positive().optional(),
+        reasoning_ms: z.number().int().positive().optional(),
+        ollama_ms: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    circuit_breaker: z
+      .object({
+        window_size: z.number().int().min(1).optional(),
+        failure_threshold: z.number().min(0).max(1).optional(),
+        cooldown_ms: z.number().int().nonnegative().optional(),
+        /** Save circuits to <data_dir>/circuit-breaker.json so restarts remember broken models */
+        persist: z.boolean().optional(),
+        /** Saved circuits untouched for longer than this are dropped on load */
+        state_ttl_ms: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    retry: z
+      .object({
+        max_retries: z.number().int().nonnegative().optional(),
+        base_delay_ms: z.number().int().nonnegative().optional(),
+        max_delay_ms: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Keyed by full model ID ("cliproxy/gpt-5") or bare name ("gpt-5") */
+    pricing: z.record(priceSchema).optional(),
+    budget: z
+      .object({
+        /** Warn once the session has spent this much */
+        soft_usd: z.number().positive().optional(),
+        /** Refuse new fan-outs once the session has spent this much */
+        hard_usd: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Where HydraMCP keeps local state (cache, ...). Relative paths resolve against the config file. */
+    data_dir: z.string().optional(),
+    cache: z
+      .object({
+        enabled: z.boolean().optional(),
+        ttl_ms: z.number().int().positive().optional(),
+        max_mb: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Append-only log of every query, read by the usage_report tool */
+    usage_log: z
+      .object({
+        enabled: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Serve MCP over Streamable HTTP instead of stdio */
+    http: z
+      .object({
+        enabled: z.boolean().optional(),
+        host: z.string().min(1).optional(),
+        port: z.number().int().min(0).max(65535).optional(),
+        /** Clients must send "Authorization: Bearer <token>" */
+        auth_token: z.string().min(1).optional(),
+        auth_token_env: z.string().optional(),
+        /** Sessions with no requests for this long are closed */
+        session_idle_ms: z.number().int().positive().optional(),
+        /** Host header values ("name:port") to accept; defaults to the loopback names on a loopback bind */
+        allowed_hosts: z.array(z.string().min(1)).min(1).optional(),
+        /** Image paths sent over HTTP must be inside this directory; without it they're refused */
+        image_dir: z.string().min(1).optional(),
+        /** Same for run_eval suite paths */
+        eval_dir: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type HydraConfigFile = z.infer<typeof hydraConfigSchema>;
+export type EndpointConfig = z.infer<typeof endpointSchema>;
+export type ModelPrice = z.infer<typeof priceSchema>;
+
+export interface ProviderConfig {
+  enabled: boolean;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/** The config with env fallbacks and defaults applied — what the rest of the code reads */
+export interface HydraConfig {
+  /** File this was loaded from, or null when running on env vars alone */
+  path: string | null;
+  providers: {
+    cliproxy: ProviderConfig;
+    ollama: ProviderConfig;
+    anthropic: ProviderConfig;
+    gemini: ProviderConfig;
+    openai_compatible: Record<string, EndpointConfig>;
+  };
+  fallbacks: Record<string, string[]>;
+  blocked_models: string[];
+  vision_models: string[];
+  aliases: Record<string, string>;
+  groups: Record<string, string[]>;
+  auto: {
+    candidates?: string[];
+    prefer: { code?: string[]; math?: string[]; general?: string[] };
+    reasoning_for: Array<"code" | "math" | "general">;
+    latency_weight: number;
+  };
+  consensus_weights: { models: Record<string, number>; learn: boolean; min_samples: number };
+  timeouts: { default_ms: number; reasoning_ms: number; ollama_ms: number };
+  circuit_breaker: {
+    window_size: number;
+    failure_threshold: number;
+    cooldown_ms: number;
+    persist: boolean;
+    state_ttl_ms: number;
+  };
+  retry: { max_retries: number; base_delay_ms: number; max_delay_ms: number };
+  pricing: Record<string, ModelPrice>;
+  budget: { soft_usd?: number; hard_usd?: number };
+  /** Absolute path of the local state directory */
+  data_dir: string;
+  cache: { enabled: boolean; ttl_ms: number; max_bytes: number };
+  usage_log: { enabled: boolean };
+  http: {
+    enabled: boolean;
+    host: string;
+    port: number;
+    auth_token?: string;
+    session_idle_ms: number;
+    allowed_hosts?: string[];
+    image_dir?: string;
+    eval_dir?: string;
+  };
+}
+
+export class ConfigError extends Error {
+  name = "ConfigError" as const;
+  constructor(source: string, issues: string[]) {
+    super(`Invalid config in ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+  }
+}
+
+let current: HydraConfig | null = null;
+let watcher: FSWatcher | null = null;
+
+/** The active config. Loads it (env vars only, if no file) on first use. */
+export function getConfig(): HydraConfig {
+  if (current === null) current = loadConfig();
+  return current;
+}
+
+/**
+ * Locate, parse and validate the config file, then resolve it against
+ * env vars and defaults. Throws ConfigError on any problem.
+ */
+export function loadConfig(): HydraConfig {
+  const path = findConfigPath();
+  const file = path ? readConfigFile(path) : {};
+  current = resolveConfig(file, path);
+
+  if (path) {
+    logger.info(
+      `Loaded config from ${path} (${Object.keys(current.fallbacks).length} fallback chain(s), ${current.blocked_models.length} blocked model(s))`
+    );
+  }
+  return current;
+}
+
+/**
+ * Watch the loaded config file and re-apply it on change. Returns a
+ * function that stops watching. No-op when no file was loaded.
+ */
+export function watchConfig(onReload?: (config: HydraConfig) => void): () => void {
+  const path = getConfig().path;
+  if (!path || watcher) return () => {};
+
+  let debounce: NodeJS.Timeout | undefined;
+  // Watch the directory: editors often save by replacing the file, which
+  // would silently end a watch on the file itself
+  watcher = watch(dirname(path), { persistent: false }, (_event, filename) => {
+    if (filename && filename.toString() !== basename(path)) return;
+    clearTimeout(debounce);
+    debounce = setTimeout(() => reload(path, onReload), 200);
+  });
+
+  logger.info(`Watching ${path} for changes`);
+  return () => {
+    clearTimeout(debounce);
+    watcher?.close();
+    watcher = null;
+  };
+}
+
+function reload(path: string, onReload?: (config: HydraConfig) => void): void {
+  if (!existsSync(path)) {
+    logger.warn(`Config file ${path} disappeared — keeping the current config`);
+    return;
+  }
+
+  const previous = getConfig();
+  let next: HydraConfig;
+  try {
+    next = resolveConfig(readConfigFile(path), path);
+  } catch (err) {
+    logger.error(`Config reload failed, keeping the current config. ${err instanceof Error ? err.message : String(err)}`);
+    return;
+  }
+
+  for (const section of ["providers", "circuit_breaker", "data_dir", "cache", "usage_log", "http"] as const) {
+    if (JSON.stringify(previous[section]) !== JSON.stringify(next[section])) {
+      logger.warn(`Config: "${section}" changed — restart HydraMCP to apply it`);
+    }
+  }
+
+  current = next;
+  logger.info(
+    `Reloaded config (${Object.keys(next.fallbacks).length} fallback chain(s), ${next.blocked_models.length} blocked model(s))`
+  );
+  onReload?.(next);
+}
+
+function findConfigPath(): string | null {
+  const explicit = process.env.HYDRA_CONFIG;
+  if (explicit) {
+    const path = resolve(explicit);
+    if (!existsSync(path)) {
+      throw new ConfigError("HYDRA_CONFIG", [`file not found: ${path}`]);
+    }
+    return path;
+  }
+
+  const path = resolve(projectRoot(), "hydra.config.json");
+  return existsSync(path) ? path : null;
+}
+
+/** Same root as .env: walk up from dist/utils to the project root */
+function projectRoot(): string {
+  const __dirname = dirname(fileURLToPath(import.meta.url));
+  return resolve(__dirname, "..", "..");
+}
+
+function readConfigFile(path: string): HydraConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new ConfigError(path, [err instanceof Error ? err.message : String(err)]);
+  }
+
+  const result = hydraConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(path, formatIssues(result.error));
+  }
+
+  const cycles = findAliasCycles(result.data.aliases ?? {});
+  if (cycles.length > 0) {
+    throw new ConfigError(path, cycles);
+  }
+  return result.data;
+}
+
+/** An alias chain that loops back on itself would never resolve */
+function findAliasCycles(aliases: Record<string, string>): string[] {
+  const issues: string[] = [];
+  for (const start of Object.keys(aliases)) {
+    const seen = [start];
+    let target = aliases[start];
+    while (Object.hasOwn(aliases, target)) {
+      if (seen.includes(target)) {
+        issues.push(`aliases.${start}: alias cycle ${[...seen, target].join(" → ")}`);
+        break;
+      }
+      seen.push(target);
+      target = aliases[target];
+    }
+  }
+  return issues;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+}
+
+function resolveConfig(file: HydraConfigFile, path: string | null): HydraConfig {
+  const env = process.env;
+  const p = file.providers ?? {};
+
+  return {
+    path,
+    providers: {
+      cliproxy: resolveProvider(p.cliproxy, true, env.CLIPROXYAPI_URL, env.CLIPROXYAPI_KEY),
+      ollama: resolveProvider(p.ollama, true, env.OLLAMA_URL),
+      anthropic: resolveProvider(p.anthropic, undefined, env.ANTHROPIC_BASE_URL, env.ANTHROPIC_API_KEY),
+      gemini: resolveProvider(p.gemini, undefined, env.GEMINI_BASE_URL, env.GEMINI_API_KEY),
+      openai_compatible: p.openai_compatible ?? parseEnvJson("HYDRA_OPENAI_ENDPOINTS", endpointsSchema) ?? {},
+    },
+    fallbacks: file.fallbacks ?? parseEnvJson("HYDRA_FALLBACKS", z.record(z.array(z.string()))) ?? {},
+    blocked_models: file.blocked_models ?? [],
+    vision_models: file.vision_models ?? [],
+    aliases: file.aliases ?? {},
+    groups: file.groups ?? {},
+    auto: {
+      candidates: file.auto?.candidates,
+      prefer: { ...file.auto?.prefer },
+      reasoning_for: file.auto?.reasoning_for ?? ["math"],
+      latency_weight: file.auto?.latency_weight ?? 1,
+    },
+    consensus_weights: {
+      models: file.consensus_weights?.models ?? {},
+      learn: file.consensus_weights?.learn ?? true,
+      min_samples: file.consensus_weights?.min_samples ?? 5,
+    },
+    timeouts: {
+      default_ms: file.timeouts?.default_ms ?? envInt("HYDRA_TOTAL_TIMEOUT_MS") ?? 120_000,
+      reasoning_ms: file.timeouts?.reasoning_ms ?? envInt("HYDRA_REASONING_TIMEOUT_MS") ?? 180_000,
+      ollama_ms: file.timeouts?.ollama_ms ?? envInt("HYDRA_OLLAMA_TIMEOUT_MS") ?? 180_000,
+    },
+    circuit_breaker: {
+      window_size: file.circuit_breaker?.window_size ?? 10,
+      failure_threshold: file.circuit_breaker?.failure_threshold ?? 0.3,
+      cooldown_ms: file.circuit_breaker?.cooldown_ms ?? 60_000,
+      persist: file.circuit_breaker?.persist ?? true,
+      state_ttl_ms: file.circuit_breaker?.state_ttl_ms ?? 60 * 60 * 1000,
+    },
+    retry: {
+      max_retries: file.retry?.max_retries ?? 2,
+      base_delay_ms: file.retry?.base_delay_ms ?? 500,
+      max_delay_ms: file.retry?.max_delay_ms ?? 5000,
+    },
+    pricing: file.pricing ?? {},
+    budget: { ...file.budget },
+    data_dir: resolve(
+      path ? dirname(path) : projectRoot(),
+      file.data_dir ?? env.HYDRA_DATA_DIR ?? ".hydra"
+    ),
+    cache: {
+      enabled: file.cache?.enabled ?? true,
+      ttl_ms: file.cache?.ttl_ms ?? 24 * 60 * 60 * 1000,
+      max_bytes: Math.round((file.cache?.max_mb ?? 50) * 1024 * 1024),
+    },
+    usage_log: {
+      enabled: file.usage_log?.enabled ?? true,
+    },
+    http: {
+      enabled: file.http?.enabled ?? env.HYDRA_TRANSPORT === "http",
+      host: file.http?.host ?? env.HYDRA_HTTP_HOST ?? "127.0.0.1",
+      port: file.http?.port ?? envInt("HYDRA_HTTP_PORT") ?? 3100,
+      auth_token:
+        file.http?.auth_token ??
+        (file.http?.auth_token_env ? env[file.http.auth_token_env] : undefined) ??
+        (env.HYDRA_HTTP_TOKEN || undefined),
+      session_idle_ms: file.http?.session_idle_ms ?? 60 * 60 * 1000,
+      allowed_hosts: file.http?.allowed_hosts,
+      image_dir: file.http?.image_dir,
+      eval_dir: file.http?.eval_dir,
+    },
+  };
+}
+
+/**
+ * File settings win over env vars. enabledByDefault undefined means
+ * "enabled if we ended up with an API key" (for the pay-per-token backends).
+ */
+function resolveProvider(
+  cfg: z.infer<typeof providerSchema> | undefined,
+  enabledByDefault: boolean | undefined,
+  envUrl?: string,
+  envKey?: string
+): ProviderConfig {
+  const apiKey = cfg?.apiKey ?? (cfg?.apiKeyEnv ? process.env[cfg.apiKeyEnv] : undefined) ?? envKey;
+  return {
+    enabled: cfg?.enabled ?? enabledByDefault ?? Boolean(apiKey),
+    baseUrl: cfg?.baseUrl ?? envUrl,
+    apiKey,
+  };
+}
+
+function parseEnvJson<T>(name: string, schema: z.ZodType<T>): T | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new ConfigError(name, [err instanceof Error ? err.message : String(err)]);
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new ConfigError(name, formatIssues(result.error));
+  }
+  return result.data;
+}
+
+function envInt(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new ConfigError(name, [`expected a positive integer, got "${raw}"`]);
+  }
+  return value;
+}
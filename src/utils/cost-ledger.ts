@@ -0,0 +1,160 @@
+/**
+ * Cost ledger — running spend for one MCP session, broken down per tool call.
+ *
+ * Each tool call gets a CallCost whose provider() wraps the real provider
+ * in a MeteredProvider, so every query the tool makes (fan-out, judge,
+ * synthesizer) lands on the call's bill and on the session total.
+ *
+ * Budgets come from "budget" in hydra.config.json:
+ * - soft_usd: once reached, every tool result carries a warning
+ * - hard_usd: once reached, fan-out tools refuse to start
+ *
+ * When a UsageStore is attached, every query (including failures) is also
+ * appended to the persistent usage log with its tool and cost.
+ */
+
+import { Provider, QueryResponse } from "../providers/provider.js";
+import { MeteredProvider } from "../providers/metered-provider.js";
+import { getConfig } from "./config.js";
+import { costOf, formatCost } from "./pricing.js";
+import { logger } from "./logger.js";
+import { UsageStore } from "./usage-store.js";
+import { resolveAlias } from "./model-aliases.js";
+
+export class BudgetExceededError extends Error {
+  name = "BudgetExceededError" as const;
+  constructor(tool: string, spent: number, limit: number) {
+    super(
+      `${tool} refused: session spend ${formatCost(spent)} has reached the hard budget of ${formatCost(limit)}. ` +
+        "Single-model queries still work; raise budget.hard_usd in hydra.config.json to allow more fan-outs."
+    );
+  }
+}
+
+export class CallCost {
+  readonly tool: string;
+  usd = 0;
+  queries = 0;
+  /** Queries whose cost is in `usd`; the rest had no price */
+  pricedQueries = 0;
+  /** Models that answered but have no price in config */
+  unpriced: Set<string> = new Set();
+  private ledger: CostLedger;
+
+  constructor(tool: string, ledger: CostLedger) {
+    this.tool = tool;
+    this.ledger = ledger;
+  }
+
+  /** The provider this call should query through */
+  provider(inner: Provider): Provider {
+    return new MeteredProvider(
+      inner,
+      (model, response) => this.record(model, response),
+      (model, err, latencyMs) => this.recordError(model, err, latencyMs)
+    );
+  }
+
+  private record(model: string, response: QueryResponse): void {
+    this.queries++;
+    const cost = costOf(model, response);
+    const served = servingModel(model, response);
+    this.ledger.usage?.record({
+      ts: Date.now(),
+      tool: this.tool,
+      model: served,
+      provider: response.provider,
+      status: "ok",
+      latency_ms: response.latency_ms,
+      prompt_tokens: response.usage?.prompt_tokens,
+      completion_tokens: response.usage?.completion_tokens,
+      total_tokens: response.usage?.total_tokens,
+      finish_reason: response.finish_reason,
+      fallback_from: response.fallback_from,
+      cached: response.cached_at !== undefined ? true : undefined,
+      cost_usd: cost,
+    });
+
+    if (cost === undefined) {
+      this.unpriced.add(served);
+      return;
+    }
+    this.pricedQueries++;
+    this.usd += cost;
+    this.ledger.add(cost);
+  }
+
+  private recordError(model: string, err: unknown, latencyMs: number): void {
+    this.ledger.usage?.record({
+      ts: Date.now(),
+      tool: this.tool,
+      model: resolveAlias(model),
+      status: "error",
+      latency_ms: latencyMs,
+      error: (err instanceof Error ? err.message : String(err)).slice(0, 200),
+    });
+  }
+}
+
+/**
+ * The model that produced the answer. Normally the one asked for; when a
+ * fallback answered, the fallback — the requested ID is in fallback_from.
+ */
+function servingModel(requested: string, response: QueryResponse): string {
+  if (!response.fallback_from) return resolveAlias(requested);
+  return response.model.startsWith(`${response.provider}/`) ? response.model : `${response.provider}/${response.model}`;
+}
+
+export class CostLedger {
+  readonly usage?: UsageStore;
+  private sessionUsd = 0;
+
+  constructor(options?: { usage?: UsageStore }) {
+    this.usage = options?.usage;
+  }
+
+  get spent(): number {
+    return this.sessionUsd;
+  }
+
+  startCall(tool: string): CallCost {
+    return new CallCost(tool, this);
+  }
+
+  add(usd: number): void {
+    this.sessionUsd += usd;
+  }
+
+  /** Throw BudgetExceededError if the hard budget is used up */
+  assertCanFanOut(tool: string): void {
+    const hard = getConfig().budget.hard_usd;
+    if (hard !== undefined && this.sessionUsd >= hard) {
+      logger.warn(`budget: refusing ${tool}, spent ${formatCost(this.sessionUsd)} of ${formatCost(hard)}`);
+      throw new BudgetExceededError(tool, this.sessionUsd, hard);
+    }
+  }
+
+  /**
+   * Cost lines appended to a tool result. Empty when nothing was priced
+   * and no budget is configured, so setups without pricing see no change.
+   */
+  formatFooter(call: CallCost): string {
+    const { soft_usd, hard_usd } = getConfig().budget;
+    if (call.pricedQueries === 0 && soft_usd === undefined && hard_usd === undefined) return "";
+
+    const lines: string[] = ["", "---"];
+    let costLine = `**Cost:** ${formatCost(call.usd)} this call · ${formatCost(this.sessionUsd)} this session`;
+    if (call.unpriced.size > 0) {
+      costLine += ` (no price for ${[...call.unpriced].join(", ")})`;
+    }
+    lines.push(costLine);
+
+    if (hard_usd !== undefined && this.sessionUsd >= hard_usd) {
+      lines.push(`**Budget:** hard limit ${formatCost(hard_usd)} reached — fan-out tools are now disabled for this session`);
+    } else if (soft_usd !== undefined && this.sessionUsd >= soft_usd) {
+      lines.push(`**Budget:** soft limit ${formatCost(soft_usd)} passed${hard_usd !== undefined ? ` (hard limit ${formatCost(hard_usd)})` : ""}`);
+    }
+
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * OpenAI-compatible endpoints — extra backends declared in config.
+ * Set under providers.openai_compatible in hydra.config.json (or the
+ * legacy HYDRA_OPENAI_ENDPOINTS env var), keyed by the routing prefix
+ * each endpoint is registered under.
+ *
+ * Example:
+ *   "openai_compatible": {
+ *     "vllm":     {"baseUrl": "http://gpu-box:8000"},
+ *     "lmstudio": {"baseUrl": "http://localhost:1234/v1", "timeoutMs": 300000},
+ *     "gateway":  {"baseUrl": "https://llm.internal", "apiKeyEnv": "GATEWAY_KEY",
+ *                  "headers": {"X-Team": "platform"}}
+ *   }
+ */
+import { OpenAICompatibleOptions } from "../providers/openai-compatible.js";
+import { EndpointConfig, getConfig } from "./config.js";
+import { logger } from "./logger.js";
+
+/** Routing prefix plus constructor options for an OpenAICompatibleProvider */
+export interface EndpointDefinition {
+  key: string;
+  options: OpenAICompatibleOptions;
+}
+
+export function loadEndpoints(): EndpointDefinition[] {
+  return Object.entries(getConfig().providers.openai_compatible).map(([key, cfg]) =>
+    toDefinition(key, cfg)
+  );
+}
+
+function toDefinition(key: string, cfg: EndpointConfig): EndpointDefinition {
+  const apiKey = cfg.apiKey ?? (cfg.apiKeyEnv ? process.env[cfg.apiKeyEnv] : undefined);
+  if (cfg.apiKeyEnv && !apiKey) {
+    logger.warn(`Endpoint ${key}: env var ${cfg.apiKeyEnv} is not set, sending no API key`);
+  }
+
+  return {
+    key,
+    options: {
+      name: cfg.name ?? key,
+      baseUrl: cfg.baseUrl,
+      apiKey,
+      headers: cfg.headers,
+      timeoutMs: cfg.timeoutMs,
+    },
+  };
+}
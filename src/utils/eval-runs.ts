@@ -0,0 +1,108 @@
+/**
+ * Eval runs — per-item results of past eval runs, one JSON file per run.
+ *
+ * Stored as <dir>/<suite>/<run id>.json. Run IDs are UTC timestamps, so
+ * sorting the file names sorts the runs, and "previous" is simply the
+ * newest run of the same suite before the current one.
+ */
+
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { GradeStatus } from "./eval-suite.js";
+
+/** What newRunId produces, e.g. 2026-10-19T19-33-34-447Z */
+export const RUN_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+export interface EvalItemResult {
+  item: string;
+  model: string;
+  /** What the backend says answered, which can differ after a fallback or a silent model swap */
+  served_model?: string;
+  /** "error" means the query itself failed */
+  status: GradeStatus | "error";
+  /** The answer, truncated */
+  output: string;
+  note?: string;
+  latency_ms: number;
+  tokens?: number;
+}
+
+export interface EvalRun {
+  version: 1;
+  id: string;
+  suite: string;
+  suite_path: string;
+  started_at: number;
+  finished_at: number;
+  models: string[];
+  items: number;
+  results: EvalItemResult[];
+}
+
+export class EvalRunStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  static newRunId(now = new Date()): string {
+    return now.toISOString().replace(/[:.]/g, "-");
+  }
+
+  pathFor(suite: string, id: string): string {
+    return join(this.dir, suite, `${id}.json`);
+  }
+
+  async save(run: EvalRun): Promise<string> {
+    const path = this.pathFor(run.suite, run.id);
+    await mkdir(join(this.dir, run.suite), { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(run), "utf-8");
+    await rename(tmp, path);
+    return path;
+  }
+
+  async load(suite: string, id: string): Promise<EvalRun> {
+    // The ID becomes a file name; anything else could point outside the store
+    if (!RUN_ID_PATTERN.test(id)) throw new Error(`"${id}" is not a run ID (expected e.g. ${EvalRunStore.newRunId()})`);
+    const path = this.pathFor(suite, id);
+    let run: EvalRun;
+    try {
+      run = JSON.parse(await readFile(path, "utf-8")) as EvalRun;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        const known = await this.list(suite);
+        throw new Error(
+          `No run "${id}" for suite "${suite}". ${known.length > 0 ? `Recent runs: ${known.slice(-5).join(", ")}` : "No runs saved yet."}`
+        );
+      }
+      throw err;
+    }
+    if (run?.version !== 1 || !Array.isArray(run.results)) {
+      throw new Error(`${path} is not an eval run this version understands`);
+    }
+    return run;
+  }
+
+  /** Run IDs for a suite, oldest first */
+  async list(suite: string): Promise<string[]> {
+    try {
+      const files = await readdir(join(this.dir, suite));
+      return files
+        .filter((f) => f.endsWith(".json"))
+        .map((f) => f.slice(0, -".json".length))
+        .sort();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  /** The newest run of the suite older than `beforeId`, if any */
+  async previous(suite: string, beforeId: string): Promise<EvalRun | undefined> {
+    const older = (await this.list(suite)).filter((id) => id < beforeId);
+    const id = older[older.length - 1];
+    return id ? this.load(suite, id) : undefined;
+  }
+}
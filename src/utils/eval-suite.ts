@@ -0,0 +1,261 @@
+/**
+ * Eval suites — JSONL prompt sets with a way to check each answer.
+ *
+ * One JSON object per line:
+ *   {"id": "capital-fr", "prompt": "Capital of France? One word.", "expected": "Paris"}
+ *   {"id": "slug", "prompt": "...", "grader": {"type": "regex", "pattern": "^[a-z-]+$"}}
+ *   {"id": "shape", "prompt": "...", "grader": {"type": "json_schema", "schema": {"type": "object", "required": ["name"]}}}
+ *   {"id": "essay", "prompt": "...", "grader": {"type": "judge", "criteria": "mentions both trade-offs"}}
+ *
+ * Graders:
+ * - exact:       the answer (or its "FINAL ANSWER:" line) equals expected,
+ *                ignoring case, surrounding quotes/markdown and a trailing period
+ * - regex:       the pattern matches somewhere in the answer
+ * - json_schema: the answer is JSON (code fences allowed) that fits the schema
+ * - judge:       a judge model says PASS or FAIL, given the criteria and
+ *                `expected` as a reference answer when there is one
+ *
+ * An item with only `expected` uses exact match. The whole file is
+ * validated before anything runs; a bad suite lists every bad line.
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { z } from "zod";
+import { CacheMode, Provider } from "../providers/provider.js";
+import { parseJsonText, schemaPatternErrors, validateJsonSchema } from "./json-schema.js";
+
+const graderSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("exact"),
+      expected: z.string().optional(),
+      case_sensitive: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("regex"),
+      pattern: z.string().min(1),
+      flags: z.string().regex(/^[imsu]*$/, "flags may only contain i, m, s and u").optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("json_schema"),
+      schema: z.record(z.unknown()),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("judge"),
+      /** Defaults to the run's judge model */
+      model: z.string().optional(),
+      criteria: z.string().optional(),
+    })
+    .strict(),
+]);
+
+const evalItemSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    prompt: z.string().min(1),
+    system_prompt: z.string().optional(),
+    expected: z.string().optional(),
+    grader: graderSchema.optional(),
+  })
+  .strict();
+
+export type EvalGrader = z.infer<typeof graderSchema>;
+
+export interface EvalItem {
+  id: string;
+  prompt: string;
+  system_prompt?: string;
+  expected?: string;
+  grader: EvalGrader;
+}
+
+export interface EvalSuite {
+  /** File name without extension; runs are stored under it */
+  name: string;
+  path: string;
+  items: EvalItem[];
+}
+
+export type GradeStatus = "pass" | "fail" | "ungraded";
+
+export interface Grade {
+  status: GradeStatus;
+  /** Why it failed, or why it couldn't be graded */
+  note?: string;
+}
+
+export class EvalSuiteError extends Error {
+  name = "EvalSuiteError" as const;
+  constructor(source: string, issues: string[]) {
+    super(`Invalid eval suite ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+  }
+}
+
+export async function loadSuite(path: string): Promise<EvalSuite> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err) {
+    throw new EvalSuiteError(path, [err instanceof Error ? err.message : String(err)]);
+  }
+
+  const items: EvalItem[] = [];
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  raw.split("\n").forEach((line, i) => {
+    const lineNo = i + 1;
+    if (line.trim() === "") return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      // Not the parser's message: newer Node versions quote the line back
+      issues.push(`line ${lineNo}: not valid JSON`);
+      return;
+    }
+
+    const result = evalItemSchema.safeParse(parsed);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push(`line ${lineNo}: ${issue.path.join(".") || "(item)"}: ${issue.message}`);
+      }
+      return;
+    }
+
+    const item = result.data;
+    const grader: EvalGrader = item.grader ?? { type: "exact" };
+    const problem = checkGrader(grader, item.expected);
+    if (problem) {
+      issues.push(`line ${lineNo}: ${problem}`);
+      return;
+    }
+
+    const id = item.id ?? `line-${lineNo}`;
+    if (ids.has(id)) {
+      issues.push(`line ${lineNo}: duplicate id "${id}"`);
+      return;
+    }
+    ids.add(id);
+    items.push({ id, prompt: item.prompt, system_prompt: item.system_prompt, expected: item.expected, grader });
+  });
+
+  if (issues.length > 0) throw new EvalSuiteError(path, issues);
+  if (items.length === 0) throw new EvalSuiteError(path, ["no items"]);
+
+  // The name becomes a directory under the run store
+  const name = basename(path).replace(/\.jsonl?$/i, "");
+  if (name === "" || name.startsWith(".")) throw new EvalSuiteError(path, ["file name can't start with \".\""]);
+  return { name, path, items };
+}
+
+/** Problems zod can't see: missing expected values and patterns that don't compile */
+function checkGrader(grader: EvalGrader, expected: string | undefined): string | undefined {
+  if (grader.type === "exact" && grader.expected === undefined && expected === undefined) {
+    return "exact grading needs \"expected\"";
+  }
+  if (grader.type === "regex") {
+    try {
+      new RegExp(grader.pattern, grader.flags);
+    } catch (err) {
+      return `grader.pattern: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+  if (grader.type === "json_schema") {
+    const problems = schemaPatternErrors(grader.schema, "grader.schema");
+    if (problems.length > 0) return problems.join("; ");
+  }
+  return undefined;
+}
+
+/**
+ * Grade one answer. Never throws: a judge that can't be reached leaves
+ * the item ungraded rather than failing the model for it.
+ */
+export async function gradeAnswer(
+  provider: Provider,
+  item: EvalItem,
+  answer: string,
+  options: { judgeModel?: string; cache?: CacheMode }
+): Promise<Grade> {
+  const grader = item.grader;
+  switch (grader.type) {
+    case "exact": {
+      const expected = grader.expected ?? item.expected ?? "";
+      const normalize = (s: string) => {
+        const cleaned = s.trim().replace(/^[*_`"']+|[*_`"'.]+$/g, "").trim();
+        return grader.case_sensitive ? cleaned : cleaned.toLowerCase();
+      };
+      const final = /^[\s*_>#-]*FINAL ANSWER\s*:\s*(.+?)\s*$/gim;
+      const candidates = [answer, ...[...answer.matchAll(final)].map((m) => m[1])];
+      return candidates.some((c) => normalize(c) === normalize(expected))
+        ? { status: "pass" }
+        : { status: "fail", note: `expected "${expected}", got "${preview(answer)}"` };
+    }
+
+    case "regex":
+      return new RegExp(grader.pattern, grader.flags).test(answer)
+        ? { status: "pass" }
+        : { status: "fail", note: `no match for /${grader.pattern}/${grader.flags ?? ""}` };
+
+    case "json_schema": {
+      const value = parseJsonText(answer);
+      if (value === undefined) return { status: "fail", note: "answer is not valid JSON" };
+      const errors = validateJsonSchema(value, grader.schema);
+      return errors.length === 0
+        ? { status: "pass" }
+        : { status: "fail", note: errors.slice(0, 3).join("; ") + (errors.length > 3 ? ` (+${errors.length - 3} more)` : "") };
+    }
+
+    case "judge":
+      return judgeAnswer(provider, item, answer, grader.model ?? options.judgeModel, grader.criteria, options.cache);
+  }
+}
+
+async function judgeAnswer(
+  provider: Provider,
+  item: EvalItem,
+  answer: string,
+  judgeModel: string | undefined,
+  criteria: string | undefined,
+  cache?: CacheMode
+): Promise<Grade> {
+  if (!judgeModel) {
+    return { status: "ungraded", note: "judge grader has no model (set grader.model or the run's judge model)" };
+  }
+
+  const judgePrompt = `You are grading an answer against a rubric.
+
+Question: "${item.prompt}"
+${item.expected !== undefined ? `\nReference answer: "${item.expected}"\n` : ""}${criteria ? `\nThe answer passes if: ${criteria}\n` : ""}
+Answer to grade:
+
+${answer}
+
+Reply with exactly "PASS" or "FAIL" on the first line, then one short sentence explaining why.`;
+
+  try {
+    const result = await provider.query(judgeModel, judgePrompt, { temperature: 0, max_tokens: 256, cache });
+    const verdict = /^\s*\**(PASS|FAIL)\b\**\s*([\s\S]*)$/i.exec(result.content);
+    if (!verdict) return { status: "ungraded", note: `judge ${judgeModel} gave no PASS/FAIL verdict` };
+    const reason = verdict[2].trim().split("\n")[0];
+    return verdict[1].toUpperCase() === "PASS"
+      ? { status: "pass" }
+      : { status: "fail", note: reason || `judge ${judgeModel} said FAIL` };
+  } catch (err) {
+    return { status: "ungraded", note: `judge ${judgeModel} failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > 60 ? `${flat.slice(0, 60)}…` : flat;
+}
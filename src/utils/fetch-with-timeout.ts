@@ -1,41 +1,77 @@
 /**
  * Fetch with timeout — wraps native fetch() with AbortController-based timeout.
  * Prevents hanging requests from blocking the entire server.
+ *
+ * The timeout covers the wait for headers and then every read of the
+ * body: each read gets the full timeout again, so a stream that keeps
+ * producing tokens runs as long as it needs, and one that stalls is
+ * aborted instead of holding the call open forever. Nothing is armed
+ * between reads, so a body nobody reads never keeps the process alive.
  */
 
+import { getConfig } from "./config.js";
+
 export class TimeoutError extends Error {
   name = "TimeoutError" as const;
-  constructor(url: string, timeoutMs: number) {
-    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+  constructor(url: string, timeoutMs: number, phase: "response" | "body" = "response") {
+    super(
+      phase === "response"
+        ? `Request to ${url} timed out after ${timeoutMs}ms`
+        : `Response from ${url} stalled: no data for ${timeoutMs}ms`
+    );
   }
 }
 
-const DEFAULT_TIMEOUT_MS = parseInt(
-  process.env.HYDRA_TOTAL_TIMEOUT_MS ?? "120000",
-  10
-);
-
 export async function fetchWithTimeout(
   url: string | URL | Request,
   init?: RequestInit,
   timeoutMs?: number
 ): Promise<Response> {
-  const ms = timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const ms = timeoutMs ?? getConfig().timeouts.default_ms;
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), ms);
 
+  let res: Response;
   try {
-    const res = await fetch(url, {
+    res = await fetch(url, {
       ...init,
       signal: controller.signal,
     });
-    return res;
   } catch (err) {
+    clearTimeout(timer);
     if (controller.signal.aborted) {
       throw new TimeoutError(String(url), ms);
     }
     throw err;
-  } finally {
-    clearTimeout(timer);
   }
+
+  clearTimeout(timer);
+  if (!res.body) return res;
+
+  // Same timeout, now per read. highWaterMark 0 means pull() only runs
+  // when a consumer asks for data, never ahead of it.
+  const reader = res.body.getReader();
+  const body = new ReadableStream<Uint8Array>(
+    {
+      async pull(stream) {
+        const idle = setTimeout(() => controller.abort(), ms);
+        idle.unref();
+        try {
+          const { done, value } = await reader.read();
+          if (done) stream.close();
+          else stream.enqueue(value);
+        } catch (err) {
+          stream.error(controller.signal.aborted ? new TimeoutError(String(url), ms, "body") : err);
+        } finally {
+          clearTimeout(idle);
+        }
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
 }
@@ -0,0 +1,55 @@
+/**
+ * File access — which server-side paths tool inputs may read.
+ *
+ * Over stdio the client is the user's own agent on the same machine, so a
+ * path is just a path. Over HTTP the client can be anyone holding the
+ * token (or, on loopback without one, any local process), and a tool that
+ * reads a path and sends the bytes to a model would leak whatever it
+ * points at. There, path inputs only work under a directory the operator
+ * configured, and not at all without one.
+ */
+
+import { realpath } from "node:fs/promises";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+
+/** Undefined means unrestricted (stdio) */
+export interface FileScope {
+  /** Paths must resolve inside this directory; null refuses every path */
+  root: string | null;
+  /** Config key that sets root, named in error messages */
+  setting: string;
+}
+
+export class FileAccessError extends Error {
+  name = "FileAccessError" as const;
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * The path to read, resolved against the scope's root. Symlinks are
+ * followed before the containment check, so a link inside root can't
+ * point out of it.
+ */
+export async function confinePath(path: string, scope: FileScope | undefined): Promise<string> {
+  if (!scope) return path;
+  if (scope.root === null) {
+    throw new FileAccessError(`reading server files is disabled over HTTP — set ${scope.setting} to allow a directory`);
+  }
+
+  const root = await realpath(scope.root).catch(() => resolve(scope.root as string));
+  let target: string;
+  try {
+    target = await realpath(resolve(root, path));
+  } catch {
+    // Don't say whether the file exists outside the allowed directory
+    throw new FileAccessError(`${path} not found under ${scope.setting}`);
+  }
+
+  const rel = relative(root, target);
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new FileAccessError(`${path} is outside ${scope.setting}`);
+  }
+  return target;
+}
@@ -0,0 +1,155 @@
+/**
+ * Image inputs — load the images a tool call attaches to its prompt.
+ *
+ * Callers give either a local file path or base64 data (a data: URL
+ * works too). Everything is turned into base64 plus a MIME type before any
+ * backend sees it, so each provider only maps it onto its own wire format:
+ * image_url parts for OpenAI-style APIs, the images field for Ollama,
+ * image / inline_data blocks for Anthropic and Gemini.
+ *
+ * The type comes from the bytes, never from the file name or the caller:
+ * anything that doesn't start with a PNG, JPEG, GIF or WebP signature is
+ * refused, so a path can't be used to ship an arbitrary file to a model.
+ * Over HTTP, paths are further confined to http.image_dir (file-access.ts).
+ *
+ * Images ride on the user turn of the message list, which means the
+ * response cache keys on them like any other part of the prompt.
+ */
+
+import { open } from "node:fs/promises";
+import { z } from "zod";
+import { ImageAttachment, QueryInput } from "../providers/provider.js";
+import { confinePath, FileScope } from "./file-access.js";
+
+/** Per image, after decoding. Most hosted APIs reject anything bigger. */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** Leading bytes of each supported format; null matches any byte */
+const SIGNATURES: Array<{ mime: string; bytes: Array<number | null> }> = [
+  { mime: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38, null, 0x61] }, // GIF87a / GIF89a
+  // "RIFF", 4 bytes of length, "WEBP"
+  { mime: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+];
+
+const SUPPORTED_MIME_TYPES = new Set(SIGNATURES.map((s) => s.mime));
+
+const DATA_URL = /^data:([^;,]+);base64,/i;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export const imagesSchema = z
+  .array(
+    z
+      .object({
+        path: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Local image file (png, jpeg, gif or webp). Over HTTP, relative to the server's http.image_dir."),
+        data: z.string().min(1).optional().describe("Base64 image data, or a data: URL"),
+        mime_type: z
+          .string()
+          .optional()
+          .describe("Expected MIME type, e.g. 'image/png'. Optional: the type is read from the image bytes."),
+      })
+      .refine((image) => (image.path === undefined) !== (image.data === undefined), "give either path or data")
+  )
+  .min(1)
+  .max(8)
+  .optional()
+  .describe("Images to attach to the prompt (vision models only; other models fail with an error)");
+
+export type ImageInput = NonNullable<z.infer<typeof imagesSchema>>[number];
+
+export class ImageInputError extends Error {
+  name = "ImageInputError" as const;
+  constructor(index: number, message: string) {
+    super(`Image ${index + 1}: ${message}`);
+  }
+}
+
+/**
+ * Read files and check data, in order. Throws on the first bad image.
+ * `files` confines path inputs (HTTP); undefined allows any path (stdio).
+ */
+export async function loadImages(inputs: ImageInput[] | undefined, files?: FileScope): Promise<ImageAttachment[]> {
+  const images: ImageAttachment[] = [];
+  for (const [i, input] of (inputs ?? []).entries()) {
+    if (input.mime_type !== undefined) checkMimeType(i, input.mime_type);
+    const image =
+      input.path !== undefined ? await loadFile(i, input.path, files) : decodeData(i, input.data ?? "", input.mime_type);
+    if (input.mime_type !== undefined && input.mime_type.toLowerCase() !== image.mime_type) {
+      throw new ImageInputError(i, `mime_type says ${input.mime_type}, but the data is ${image.mime_type}`);
+    }
+    images.push(image);
+  }
+  return images;
+}
+
+async function loadFile(index: number, path: string, files: FileScope | undefined): Promise<ImageAttachment> {
+  let mime: string;
+  let bytes: Buffer;
+  try {
+    const target = await confinePath(path, files);
+    const handle = await open(target, "r");
+    try {
+      const info = await handle.stat();
+      if (!info.isFile()) throw new Error(`${path} is not a file`);
+      checkSize(index, info.size);
+      // Look at the signature before reading the rest
+      const head = Buffer.alloc(12);
+      const { bytesRead } = await handle.read(head, 0, head.length, 0);
+      mime = sniffType(index, head.subarray(0, bytesRead));
+      bytes = await handle.readFile();
+    } finally {
+      await handle.close();
+    }
+  } catch (err) {
+    if (err instanceof ImageInputError) throw err;
+    throw new ImageInputError(index, err instanceof Error ? err.message : String(err));
+  }
+  return { mime_type: mime, data: bytes.toString("base64") };
+}
+
+function decodeData(index: number, raw: string, mimeType: string | undefined): ImageAttachment {
+  const dataUrl = DATA_URL.exec(raw);
+  if (dataUrl && mimeType === undefined) checkMimeType(index, dataUrl[1]);
+
+  const data = (dataUrl ? raw.slice(dataUrl[0].length) : raw).replace(/\s+/g, "");
+  if (!BASE64.test(data)) throw new ImageInputError(index, "data is not valid base64");
+  checkSize(index, Buffer.byteLength(data, "base64"));
+  const mime = sniffType(index, Buffer.from(data.slice(0, 16), "base64"));
+  return { mime_type: mime, data };
+}
+
+/** The MIME type the leading bytes prove; throws for anything that isn't a supported image */
+function sniffType(index: number, head: Buffer): string {
+  const match = SIGNATURES.find(
+    (s) => head.length >= s.bytes.length && s.bytes.every((b, i) => b === null || head[i] === b)
+  );
+  if (!match) throw new ImageInputError(index, "not a PNG, JPEG, GIF or WebP image");
+  return match.mime;
+}
+
+function checkMimeType(index: number, mime: string): void {
+  if (!SUPPORTED_MIME_TYPES.has(mime.toLowerCase())) {
+    throw new ImageInputError(index, `unsupported type "${mime}" — use ${[...SUPPORTED_MIME_TYPES].join(", ")}`);
+  }
+}
+
+function checkSize(index: number, bytes: number): void {
+  if (bytes === 0) throw new ImageInputError(index, "image is empty");
+  if (bytes > MAX_IMAGE_BYTES) {
+    throw new ImageInputError(index, `${(bytes / 1024 / 1024).toFixed(1)} MB is over the ${MAX_IMAGE_BYTES / 1024 / 1024} MB limit`);
+  }
+}
+
+/** The prompt as-is without images, otherwise a single user turn carrying them */
+export function withImages(prompt: string, images: ImageAttachment[]): QueryInput {
+  return images.length === 0 ? prompt : [{ role: "user", content: prompt, images }];
+}
+
+export function hasImages(input: QueryInput): boolean {
+  return typeof input !== "string" && input.some((m) => (m.images?.length ?? 0) > 0);
+}
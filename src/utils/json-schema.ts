@@ -0,0 +1,170 @@
+/**
+ * JSON Schema — a small validator for the subset model outputs need.
+ *
+ * Supported: type (one or a list), enum, const, properties, required,
+ * additionalProperties, items, minItems/maxItems, minLength/maxLength,
+ * pattern, minimum/maximum, exclusiveMinimum/exclusiveMaximum, anyOf.
+ * Other keywords ($ref, formats, ...) are ignored rather than rejected,
+ * so a schema written for a full validator still checks what it can.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Every way `value` breaks `schema`, as "$.path: problem". Empty means valid. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => deepEqual(e, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf as JsonSchema[];
+    if (!branches.some((s) => validateJsonSchema(value, s, path).length === 0)) {
+      errors.push(`${path}: doesn't match any of the allowed shapes`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(`${path}: doesn't match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: below minimum ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: above maximum ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!Object.hasOwn(value, key)) errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      if (Object.hasOwn(properties, key)) {
+        errors.push(...validateJsonSchema(child, properties[key], childPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: property not allowed`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties as JsonSchema, childPath));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Every `pattern` in the schema that won't compile, as "$.path: problem",
+ * walking the same keywords validateJsonSchema does. A schema that passes
+ * can't throw during validation.
+ */
+export function schemaPatternErrors(schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+  if (schema.pattern !== undefined) {
+    try {
+      if (typeof schema.pattern !== "string") throw new Error("must be a string");
+      new RegExp(schema.pattern, "u");
+    } catch (err) {
+      errors.push(`${path}.pattern: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const child = (sub: unknown, subPath: string) => {
+    if (isObject(sub)) errors.push(...schemaPatternErrors(sub, subPath));
+  };
+  if (isObject(schema.properties)) {
+    for (const [key, sub] of Object.entries(schema.properties)) child(sub, `${path}.properties.${key}`);
+  }
+  child(schema.additionalProperties, `${path}.additionalProperties`);
+  child(schema.items, `${path}.items`);
+  if (Array.isArray(schema.anyOf)) schema.anyOf.forEach((sub, i) => child(sub, `${path}.anyOf[${i}]`));
+  return errors;
+}
+
+/**
+ * JSON out of model text: the whole thing, a fenced block, or the
+ * outermost {...} / [...]. Undefined when none of them parse.
+ */
+export function parseJsonText(text: string): unknown {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(text)?.[1];
+  const braces = /[[{][\s\S]*[\]}]/.exec(text)?.[0];
+  for (const candidate of [text.trim(), fenced, braces]) {
+    if (candidate === undefined) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return isObject(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
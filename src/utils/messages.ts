@@ -0,0 +1,18 @@
+/**
+ * Message helpers — normalize a QueryInput into the role/content list
+ * every chat-style backend expects.
+ */
+
+import { ChatMessage, QueryInput } from "../providers/provider.js";
+
+export function buildMessages(prompt: QueryInput, systemPrompt?: string): ChatMessage[] {
+  const messages: ChatMessage[] =
+    typeof prompt === "string" ? [{ role: "user", content: prompt }] : [...prompt];
+
+  if (systemPrompt && messages[0]?.role !== "system") {
+    messages.unshift({ role: "system", content: systemPrompt });
+  }
+
+  return messages;
+}
+
@@ -0,0 +1,73 @@
+/**
+ * Model aliases and groups — stable names for model IDs that keep changing.
+ *
+ * Configured in hydra.config.json (hot-reloaded):
+ *   "aliases": { "fast": "cliproxy/gemini-2.5-flash", "smart": "anthropic/claude-opus-4-1" }
+ *   "groups":  { "frontier": ["smart", "cliproxy/gpt-5", "gemini/gemini-2.5-pro"] }
+ *
+ * Aliases work anywhere a model ID does (MultiProvider resolves them).
+ * Groups are written "@frontier" and only make sense where a tool takes a
+ * list of models, so the fan-out tools expand them before querying.
+ */
+
+import { getConfig } from "./config.js";
+
+export class ModelGroupError extends Error {
+  name = "ModelGroupError" as const;
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/** Follow an alias chain to a real model ID. Non-aliases come back unchanged. */
+export function resolveAlias(model: string): string {
+  const aliases = getConfig().aliases;
+  let resolved = model;
+  // Cycles are rejected at config load; the hop limit is just a backstop
+  for (let hops = 0; hops < 10 && Object.hasOwn(aliases, resolved); hops++) {
+    resolved = aliases[resolved];
+  }
+  return resolved;
+}
+
+export function isGroup(model: string): boolean {
+  return model.startsWith("@");
+}
+
+/**
+ * Expand "@group" entries in a models array, drop duplicates and check the
+ * count the tool allows. Aliases are kept as written so output shows the
+ * names the caller used.
+ */
+export function expandModels(models: string[], min: number, max: number): string[] {
+  const unique = expandGroups(models);
+  if (unique.length < min || unique.length > max) {
+    throw new ModelGroupError(
+      `Expected ${min}-${max} models, got ${unique.length} after expanding groups: ${unique.join(", ")}`
+    );
+  }
+  return unique;
+}
+
+/** Expand "@group" entries and drop duplicates, without any count check */
+export function expandGroups(models: string[]): string[] {
+  const groups = getConfig().groups;
+  const expanded: string[] = [];
+
+  for (const entry of models) {
+    if (!isGroup(entry)) {
+      expanded.push(entry);
+      continue;
+    }
+    const name = entry.slice(1);
+    if (!Object.hasOwn(groups, name)) {
+      const known = Object.keys(groups).map((g) => `@${g}`);
+      throw new ModelGroupError(
+        `Unknown model group "${entry}". ${known.length > 0 ? `Available: ${known.join(", ")}` : "No groups are configured in hydra.config.json."}`
+      );
+    }
+    expanded.push(...groups[name]);
+  }
+
+  return [...new Set(expanded)];
+}
@@ -0,0 +1,154 @@
+/**
+ * Model weights — how much each model's vote counts in weighted consensus.
+ *
+ * A weight comes from, in order:
+ * 1. "consensus_weights.models" in hydra.config.json (by alias, bare name or full ID)
+ * 2. learned: how often the model sided with the majority in past consensus
+ *    runs, once it has "min_samples" outcomes. The rate is smoothed and
+ *    doubled, so a model that agrees half the time weighs 1 and one that
+ *    always agrees approaches 2.
+ * 3. 1
+ *
+ * Outcomes are keyed by the resolved model ID, so an alias and the model it
+ * points at share a record. With a statePath they're saved (debounced,
+ * write-then-rename) and restored on startup.
+ */
+
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getConfig } from "./config.js";
+import { resolveAlias } from "./model-aliases.js";
+import { logger } from "./logger.js";
+
+const SAVE_DEBOUNCE_MS = 500;
+
+export interface ModelWeight {
+  weight: number;
+  source: "config" | "learned" | "default";
+  /** Past consensus outcomes recorded for this model */
+  samples: number;
+}
+
+interface Outcomes {
+  /** Consensus runs with a clear majority that this model voted in */
+  total: number;
+  /** ...of which it was in the majority */
+  sided: number;
+}
+
+interface SavedState {
+  version: 1;
+  saved_at: number;
+  models: Record<string, Outcomes>;
+}
+
+export class ModelWeights {
+  private outcomes: Map<string, Outcomes> = new Map();
+  private statePath?: string;
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(statePath?: string) {
+    this.statePath = statePath;
+    if (statePath) this.restore(statePath);
+  }
+
+  weightOf(model: string): ModelWeight {
+    const config = getConfig().consensus_weights;
+    const resolved = resolveAlias(model);
+    const samples = this.outcomes.get(resolved)?.total ?? 0;
+
+    const configured = [model, resolved, resolved.split("/").pop() ?? resolved].find((k) =>
+      Object.hasOwn(config.models, k)
+    );
+    if (configured !== undefined) {
+      return { weight: config.models[configured], source: "config", samples };
+    }
+
+    const seen = this.outcomes.get(resolved);
+    if (config.learn && seen && seen.total >= config.min_samples) {
+      return { weight: (2 * (seen.sided + 1)) / (seen.total + 2), source: "learned", samples };
+    }
+    return { weight: 1, source: "default", samples };
+  }
+
+  /** Record one consensus outcome: who voted and whether they sided with the majority */
+  record(votes: Array<{ model: string; sided: boolean }>): void {
+    if (!getConfig().consensus_weights.learn || votes.length === 0) return;
+
+    for (const { model, sided } of votes) {
+      const key = resolveAlias(model);
+      const entry = this.outcomes.get(key) ?? { total: 0, sided: 0 };
+      entry.total++;
+      if (sided) entry.sided++;
+      this.outcomes.set(key, entry);
+    }
+    this.changed();
+  }
+
+  /** Write pending outcomes now instead of waiting for the debounce */
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.queueSave();
+    }
+    return this.saving;
+  }
+
+  private changed(): void {
+    if (!this.statePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.queueSave();
+    }, SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref();
+  }
+
+  private queueSave(): void {
+    const path = this.statePath;
+    if (!path) return;
+
+    this.saving = this.saving
+      .then(async () => {
+        const state: SavedState = {
+          version: 1,
+          saved_at: Date.now(),
+          models: Object.fromEntries(this.outcomes),
+        };
+        await mkdir(dirname(path), { recursive: true });
+        const tmp = `${path}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(state), "utf-8");
+        await rename(tmp, path);
+      })
+      .catch((err) => {
+        logger.warn(`Model weights: failed to save ${path}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  private restore(path: string): void {
+    let state: SavedState;
+    try {
+      state = JSON.parse(readFileSync(path, "utf-8")) as SavedState;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn(`Model weights: ignoring unreadable ${path}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return;
+    }
+    if (state?.version !== 1 || typeof state.models !== "object" || state.models === null) {
+      logger.warn(`Model weights: ignoring ${path} (unknown format)`);
+      return;
+    }
+
+    for (const [model, saved] of Object.entries(state.models)) {
+      if (!Number.isInteger(saved?.total) || !Number.isInteger(saved?.sided)) continue;
+      if (saved.total <= 0 || saved.sided < 0 || saved.sided > saved.total) continue;
+      this.outcomes.set(model, { total: saved.total, sided: saved.sided });
+    }
+    if (this.outcomes.size > 0) {
+      logger.info(`Model weights: restored consensus outcomes for ${this.outcomes.size} model(s) from ${path}`);
+    }
+  }
+}
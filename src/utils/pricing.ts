@@ -0,0 +1,50 @@
+/**
+ * Pricing — turns QueryResponse.usage into dollars.
+ *
+ * Prices come from "pricing" in hydra.config.json, per million tokens,
+ * keyed by full model ID ("cliproxy/gpt-5") or bare name ("gpt-5").
+ * Models without a price are reported as unpriced, never as free.
+ * Cache hits cost nothing: no tokens were actually spent.
+ */
+
+import { QueryResponse } from "../providers/provider.js";
+import { getConfig, ModelPrice } from "./config.js";
+import { resolveAlias } from "./model-aliases.js";
+
+/** Aliases are priced as the model they currently point at */
+export function priceFor(model: string): ModelPrice | undefined {
+  const pricing = getConfig().pricing;
+  const resolved = resolveAlias(model);
+  const bare = resolved.split("/").pop() ?? resolved;
+  return pricing[resolved] ?? pricing[bare];
+}
+
+/** USD cost of one response, or undefined when the model has no price or usage */
+export function costOf(model: string, response: QueryResponse): number | undefined {
+  if (response.cached_at !== undefined) return 0;
+
+  const usage = response.usage;
+  // When a fallback served this, price the model that actually ran
+  const price = response.fallback_from
+    ? priceFor(response.model) ?? priceFor(model)
+    : priceFor(model) ?? priceFor(response.model);
+  if (!usage || !price) return undefined;
+
+  const cacheRead = usage.cache_read_tokens ?? 0;
+  const cacheWrite = usage.cache_write_tokens ?? 0;
+  const uncached = Math.max(0, usage.prompt_tokens - cacheRead - cacheWrite);
+
+  return (
+    uncached * price.input_per_mtok +
+    cacheRead * (price.cache_read_per_mtok ?? price.input_per_mtok) +
+    cacheWrite * (price.cache_write_per_mtok ?? price.input_per_mtok) +
+    usage.completion_tokens * price.output_per_mtok
+  ) / 1_000_000;
+}
+
+export function formatCost(usd: number | undefined): string {
+  if (usd === undefined) return "n/a";
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
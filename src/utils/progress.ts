@@ -0,0 +1,60 @@
+/**
+ * Progress reporting — forwards streamed model output to the MCP client
+ * as notifications/progress, so a three-minute reasoning query visibly
+ * moves instead of looking hung.
+ *
+ * Only active when the client sent a progressToken with the tool call.
+ * Notifications are throttled, and "progress" is the running total of
+ * completion tokens across every model the tool call is waiting on.
+ */
+
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { QueryProgress } from "../providers/provider.js";
+import { logger } from "./logger.js";
+
+export type ProgressCallback = (progress: QueryProgress) => void;
+
+const MIN_INTERVAL_MS = 500;
+const PREVIEW_CHARS = 120;
+
+export function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressCallback | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  const tokensByModel = new Map<string, number>();
+  let lastSentAt = 0;
+  let lastProgress = 0;
+
+  return (p) => {
+    // Retries restart a stream from zero; never let a model's count go backwards
+    tokensByModel.set(p.model, Math.max(tokensByModel.get(p.model) ?? 0, p.completion_tokens));
+
+    const now = Date.now();
+    if (now - lastSentAt < MIN_INTERVAL_MS) return;
+
+    let total = 0;
+    for (const n of tokensByModel.values()) total += n;
+    // The spec requires progress to increase with every notification
+    if (total <= lastProgress) return;
+
+    lastSentAt = now;
+    lastProgress = total;
+
+    const preview = p.content.slice(-PREVIEW_CHARS).replace(/\s+/g, " ").trim();
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: total,
+          message: `${p.model}: ${p.completion_tokens} tokens — …${preview}`,
+        },
+      })
+      .catch((err) => {
+        logger.debug(`progress notification failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Prompt classifier — a cheap guess at what kind of question this is.
+ *
+ * Used by "auto" routing to favor different models for code, math and
+ * everything else. Pure keyword/shape heuristics: no model call, so it
+ * adds nothing to latency or cost. It only has to be right often enough
+ * to nudge the ranking; observed health still decides ties and failures.
+ */
+
+export type PromptCategory = "code" | "math" | "general";
+
+const CODE_SIGNALS: RegExp[] = [
+  /```/,
+  /\b(function|const|let|var|def|class|import|return|async|await|struct|impl|fn|public|private)\b/,
+  /\b(bug|stack ?trace|traceback|exception|compile|refactor|unit test|regex|sql query|api endpoint|typescript|javascript|python|rust|golang|java|c\+\+|css|html|react|docker|git)\b/i,
+  /\.(ts|tsx|js|py|rs|go|java|rb|cpp|c|h|sql|sh|ya?ml|json)\b/,
+  /[{};]\s*\n/,
+  /=>|::|->|\(\)\s*\{/,
+];
+
+const MATH_SIGNALS: RegExp[] = [
+  /\b(prove|proof|theorem|lemma|integral|derivative|equation|solve for|probability|expected value|matrix|eigen\w*|polynomial|modulo|prime|combinatorics?)\b/i,
+  /\\(frac|sum|int|sqrt|cdot|binom)/,
+  /\d\s*[+\-*/^]\s*\d/,
+  /[a-z]\s*\^\s*\d|\bx\s*=|=\s*\d+\s*$/m,
+  /[∑∫√∞≤≥≠π]/,
+];
+
+/** Score each category by how many distinct signals fire; ties go to general */
+export function classifyPrompt(prompt: string): PromptCategory {
+  const code = CODE_SIGNALS.filter((p) => p.test(prompt)).length;
+  const math = MATH_SIGNALS.filter((p) => p.test(prompt)).length;
+
+  if (code >= 2 && code >= math) return "code";
+  if (math >= 2 && math > code) return "math";
+  return "general";
+}
@@ -43,3 +43,19 @@ export function adjustMaxTokens(model: string, requestedTokens: number): number
   const boosted = Math.max(4096, requestedTokens * 4);
   return Math.min(boosted, 16384);
 }
+
+/** Gemini models that accept generationConfig.thinkingConfig on the native API */
+const GEMINI_THINKING_PATTERNS: RegExp[] = [
+  /gemini-2\.5/i,
+  /gemini-3/i,
+  /gemini.*think/i,
+];
+
+/**
+ * Check if a Gemini model takes an explicit thinking budget. The native
+ * Gemini backend uses this instead of adjustMaxTokens: rather than guessing
+ * a 4x boost, it asks for exactly budget + answer tokens.
+ */
+export function supportsThinkingBudget(model: string): boolean {
+  return GEMINI_THINKING_PATTERNS.some((p) => p.test(model));
+}
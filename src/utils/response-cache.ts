@@ -0,0 +1,155 @@
+/**
+ * Response cache — disk-backed store for model responses.
+ *
+ * One JSON file per entry under <data_dir>/cache, named by the SHA-256 of
+ * the request key. An in-memory index (size, stored/last-used times) is
+ * rebuilt from the directory on startup, so entries survive restarts.
+ *
+ * Entries expire after the TTL. When the directory grows past the size
+ * limit, the least recently used entries are deleted first.
+ */
+
+import crypto from "node:crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { QueryResponse } from "../providers/provider.js";
+import { logger } from "./logger.js";
+
+interface CacheEntry {
+  key: string;
+  stored_at: number;
+  response: QueryResponse;
+}
+
+interface IndexEntry {
+  size: number;
+  storedAt: number;
+  lastUsed: number;
+}
+
+export class ResponseCache {
+  private dir: string;
+  private ttlMs: number;
+  private maxBytes: number;
+  private index: Map<string, IndexEntry> = new Map();
+  private totalBytes = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(options: { dir: string; ttlMs: number; maxBytes: number }) {
+    this.dir = options.dir;
+    this.ttlMs = options.ttlMs;
+    this.maxBytes = options.maxBytes;
+  }
+
+  /** Hash an arbitrary JSON-serializable request description into a cache key */
+  static keyFor(request: unknown): string {
+    return crypto.createHash("sha256").update(JSON.stringify(request)).digest("hex");
+  }
+
+  async get(key: string): Promise<{ response: QueryResponse; storedAt: number } | null> {
+    await this.init();
+    const meta = this.index.get(key);
+    if (!meta) return null;
+
+    if (Date.now() - meta.storedAt > this.ttlMs) {
+      await this.remove(key);
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(await readFile(this.pathFor(key), "utf-8")) as CacheEntry;
+      meta.lastUsed = Date.now();
+      return { response: entry.response, storedAt: entry.stored_at };
+    } catch (err) {
+      logger.warn(`cache: dropping unreadable entry ${key.slice(0, 12)}: ${err instanceof Error ? err.message : String(err)}`);
+      await this.remove(key);
+      return null;
+    }
+  }
+
+  async set(key: string, response: QueryResponse): Promise<void> {
+    await this.init();
+    const now = Date.now();
+    const entry: CacheEntry = { key, stored_at: now, response };
+    const data = JSON.stringify(entry);
+
+    // Write-then-rename so a crash never leaves a half-written entry behind.
+    // The random part keeps concurrent writes of one key off each other's temp file.
+    const path = this.pathFor(key);
+    const tmp = `${path}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    await writeFile(tmp, data, "utf-8");
+    await rename(tmp, path);
+
+    const previous = this.index.get(key);
+    if (previous) this.totalBytes -= previous.size;
+    const size = Buffer.byteLength(data);
+    this.index.set(key, { size, storedAt: now, lastUsed: now });
+    this.totalBytes += size;
+
+    await this.evict();
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) this.ready = this.loadIndex();
+    return this.ready;
+  }
+
+  private async loadIndex(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const files = await readdir(this.dir);
+
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const info = await stat(join(this.dir, file));
+        const key = file.slice(0, -".json".length);
+        this.index.set(key, { size: info.size, storedAt: info.mtimeMs, lastUsed: info.mtimeMs });
+        this.totalBytes += info.size;
+      } catch {
+        // Raced with another process deleting it — nothing to index
+      }
+    }
+
+    logger.info(`cache: ${this.index.size} entries (${(this.totalBytes / 1024 / 1024).toFixed(1)}MB) in ${this.dir}`);
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    const now = Date.now();
+    for (const [key, meta] of this.index) {
+      if (now - meta.storedAt > this.ttlMs) await this.remove(key);
+    }
+
+    if (this.totalBytes <= this.maxBytes) return;
+
+    const byAge = [...this.index.entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key] of byAge) {
+      if (this.totalBytes <= this.maxBytes) break;
+      await this.remove(key);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    const meta = this.index.get(key);
+    if (!meta) return;
+    this.index.delete(key);
+    this.totalBytes -= meta.size;
+    try {
+      await unlink(this.pathFor(key));
+    } catch {
+      // Already gone
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+/** "cached 4m ago" — shared by every tool that renders a cache hit */
+export function describeCacheAge(cachedAt: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - cachedAt) / 1000));
+  if (seconds < 60) return `cached ${seconds}s ago`;
+  if (seconds < 3600) return `cached ${Math.round(seconds / 60)}m ago`;
+  return `cached ${Math.round(seconds / 3600)}h ago`;
+}
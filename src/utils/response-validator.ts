@@ -14,7 +14,8 @@ export class EmptyResponseError extends Error {
 }
 
 export function validateResponse(response: QueryResponse): QueryResponse {
-  if (response.content.trim().length === 0 && !response.reasoning_content) {
+  // A turn that only calls tools has no text, and that's fine
+  if (response.content.trim().length === 0 && !response.reasoning_content && !response.tool_calls?.length) {
     throw new EmptyResponseError(response.model);
   }
 
@@ -4,6 +4,7 @@
  */
 
 import { logger } from "../utils/logger.js";
+import { getConfig } from "./config.js";
 
 export interface RetryOptions {
   maxRetries?: number;
@@ -12,7 +13,8 @@ export interface RetryOptions {
 }
 
 const NON_RETRYABLE_CODES = ["400", "401", "403", "404"];
-const RETRYABLE_CODES = ["429", "500", "502", "503", "504"];
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_CODES = ["429", "500", "502", "503", "504", "529"];
 
 function isNonRetryable(err: unknown): boolean {
   if (!(err instanceof Error)) return false;
@@ -30,9 +32,10 @@ export async function withRetry<T>(
   fn: () => Promise<T>,
   options?: RetryOptions
 ): Promise<T> {
-  const maxRetries = options?.maxRetries ?? 2;
-  const baseDelayMs = options?.baseDelayMs ?? 500;
-  const maxDelayMs = options?.maxDelayMs ?? 5000;
+  const policy = getConfig().retry;
+  const maxRetries = options?.maxRetries ?? policy.max_retries;
+  const baseDelayMs = options?.baseDelayMs ?? policy.base_delay_ms;
+  const maxDelayMs = options?.maxDelayMs ?? policy.max_delay_ms;
 
   let lastError: unknown;
 
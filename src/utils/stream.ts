@@ -0,0 +1,67 @@
+/**
+ * Streaming body readers — turn a fetch() Response body into parsed events.
+ *
+ * OpenAI-compatible backends stream Server-Sent Events ("data: {...}" lines,
+ * terminated by "data: [DONE]"). Ollama streams newline-delimited JSON.
+ * Both arrive in arbitrary byte chunks, so we buffer until a full line.
+ *
+ * A consumer that stops early (break, throw) cancels the body, which
+ * closes the connection instead of leaving the backend generating into
+ * a socket nobody reads.
+ */
+
+async function* readLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) yield buffer;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield the payload of each SSE "data:" field. Stops at "[DONE]".
+ * Comments, event names and blank separator lines are skipped.
+ */
+export async function* readSSE(res: Response): AsyncGenerator<string> {
+  for await (const line of readLines(res)) {
+    if (!line.startsWith("data:")) continue;
+    const payload = line.slice(5).trim();
+    if (payload === "[DONE]") return;
+    if (payload) yield payload;
+  }
+}
+
+/**
+ * Yield each JSON object from a newline-delimited JSON stream.
+ */
+export async function* readNDJSON<T = unknown>(res: Response): AsyncGenerator<T> {
+  for await (const line of readLines(res)) {
+    const trimmed = line.trim();
+    if (trimmed) yield JSON.parse(trimmed) as T;
+  }
+}
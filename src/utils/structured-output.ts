@@ -0,0 +1,106 @@
+/**
+ * Structured output — ask for JSON that matches a schema, check it, and
+ * send the model its own mistakes until it gets it right.
+ *
+ * Three layers, because no single one is enough on its own:
+ * 1. The schema goes in QueryOptions.response_schema, so backends with a
+ *    native JSON mode (OpenAI response_format, Ollama format, Gemini
+ *    responseJsonSchema) constrain the output themselves.
+ * 2. The schema is also spelled out in the prompt, for backends without
+ *    one (Anthropic, most proxies in front of it).
+ * 3. Whatever comes back is parsed and validated here. On failure the
+ *    model gets the conversation so far plus the validation errors, and
+ *    tries again, up to maxRepairs times.
+ */
+
+import { ChatMessage, Provider, QueryInput, QueryOptions, QueryResponse } from "../providers/provider.js";
+import { buildMessages } from "./messages.js";
+import { JsonSchema, parseJsonText, schemaPatternErrors, validateJsonSchema } from "./json-schema.js";
+import { logger } from "./logger.js";
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+export interface StructuredResult {
+  /** The parsed JSON, valid against the schema */
+  value: unknown;
+  /** The response the value came from */
+  response: QueryResponse;
+  /** Re-prompts it took; 0 means the first answer was valid */
+  repairs: number;
+  /** Across every attempt */
+  latency_ms: number;
+}
+
+export class StructuredOutputError extends Error {
+  name = "StructuredOutputError" as const;
+  /** What was wrong with the last answer */
+  readonly errors: string[];
+  /** The last answer, for callers that can still use free text */
+  readonly lastResponse: QueryResponse;
+  constructor(model: string, attempts: number, errors: string[], lastResponse: QueryResponse) {
+    const shown = errors.slice(0, 5).map((e) => `  - ${e}`).join("\n");
+    const more = errors.length > 5 ? `\n  (+${errors.length - 5} more)` : "";
+    super(`${model} gave no answer matching the schema after ${attempts} attempt(s):\n${shown}${more}`);
+    this.errors = errors;
+    this.lastResponse = lastResponse;
+  }
+}
+
+/**
+ * Query until the answer is JSON matching `schema`. Throws
+ * StructuredOutputError when every attempt fails validation; query
+ * errors are thrown as-is. A schema with a pattern that won't compile
+ * is rejected before anything is sent.
+ */
+export async function queryStructured(
+  provider: Provider,
+  model: string,
+  prompt: QueryInput,
+  schema: JsonSchema,
+  options: QueryOptions = {},
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<StructuredResult> {
+  const problems = schemaPatternErrors(schema, "response_schema");
+  if (problems.length > 0) {
+    throw new Error(`Invalid response_schema: ${problems.join("; ")}`);
+  }
+
+  const start = Date.now();
+  const { system_prompt, ...rest } = options;
+  const queryOptions: QueryOptions = { ...rest, response_schema: schema };
+
+  let messages = withSchemaInstruction(buildMessages(prompt, system_prompt), schema);
+  let errors: string[] = [];
+  let response: QueryResponse | undefined;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    response = await provider.query(model, messages, queryOptions);
+
+    const value = parseJsonText(response.content);
+    errors = value === undefined ? ["reply is not valid JSON"] : validateJsonSchema(value, schema);
+    if (errors.length === 0) {
+      return { value, response, repairs: attempt, latency_ms: Date.now() - start };
+    }
+
+    logger.warn(`structured output: ${model} attempt ${attempt + 1} failed validation (${errors.length} error(s))`);
+    messages = [
+      ...messages,
+      { role: "assistant", content: response.content },
+      { role: "user", content: repairPrompt(errors) },
+    ];
+  }
+
+  throw new StructuredOutputError(model, maxRepairs + 1, errors, response!);
+}
+
+/** Spell the schema out on the last user turn, for backends without a JSON mode */
+function withSchemaInstruction(messages: ChatMessage[], schema: JsonSchema): ChatMessage[] {
+  const instruction = `Reply with ONLY JSON matching this JSON Schema, no other text:\n${JSON.stringify(schema)}`;
+  const last = messages.length - 1;
+  return messages.map((m, i) => (i === last ? { ...m, content: `${m.content}\n\n${instruction}` } : m));
+}
+
+function repairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, 10).map((e) => `- ${e}`).join("\n");
+  return `That reply doesn't match the schema:\n${listed}\n\nReply again with ONLY the corrected JSON, no other text.`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Tool calls — let a model propose function calls without HydraMCP ever
+ * running them.
+ *
+ * The caller passes tool definitions, the model answers with calls, and
+ * the calls come back as data. Whoever asked decides what to run. To
+ * hand results back, the caller repeats the prompt with the calls it got
+ * and one result per call; toolConversation() turns that into the
+ * user → assistant (calls) → tool (results) history every backend with
+ * tool support understands.
+ *
+ * Only the OpenAI-compatible backends and Ollama forward tools;
+ * MultiProvider refuses them elsewhere instead of dropping them.
+ */
+
+import { z } from "zod";
+import { ChatMessage, QueryInput, QueryOptions, ToolCall } from "../providers/provider.js";
+
+const toolName = z
+  .string()
+  .regex(/^[a-zA-Z0-9_-]{1,64}$/, "tool names are 1-64 letters, digits, _ or -");
+
+export const toolsSchema = z
+  .array(
+    z.object({
+      name: toolName,
+      description: z.string().optional(),
+      parameters: z
+        .record(z.unknown())
+        .optional()
+        .default({ type: "object", properties: {} })
+        .describe("JSON Schema for the arguments"),
+    })
+  )
+  .min(1)
+  .max(64)
+  .optional()
+  .describe("Tools the model may call. Calls are returned as data, never executed.");
+
+export const toolChoiceSchema = z
+  .union([z.enum(["auto", "none", "required"]), z.object({ name: toolName })])
+  .optional()
+  .describe("'auto' (default), 'none', 'required', or {name} to force one tool");
+
+export const toolCallsSchema = z
+  .array(z.object({ id: z.string().min(1), name: toolName, arguments: z.unknown() }))
+  .min(1)
+  .optional()
+  .describe("Follow-up turn: the tool_calls from the previous answer, as returned");
+
+export const toolResultsSchema = z
+  .array(
+    z.object({
+      tool_call_id: z.string().min(1),
+      content: z.string().describe("The tool's output (JSON or text)"),
+    })
+  )
+  .min(1)
+  .optional()
+  .describe("Follow-up turn: one result per tool call, matched by tool_call_id");
+
+export class ToolTurnError extends Error {
+  name = "ToolTurnError" as const;
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * The prompt as-is on a first turn. On a follow-up, the conversation
+ * with the model's calls and their results, after checking that every
+ * call has exactly one result.
+ */
+export function toolConversation(
+  prompt: QueryInput,
+  toolCalls: ToolCall[] | undefined,
+  toolResults: Array<{ tool_call_id: string; content: string }> | undefined
+): QueryInput {
+  if (!toolCalls && !toolResults) return prompt;
+  if (!toolCalls || !toolResults) {
+    throw new ToolTurnError("tool_calls and tool_results go together: pass the calls you got back and a result for each");
+  }
+
+  const ids = new Set(toolCalls.map((c) => c.id));
+  const unknown = toolResults.filter((r) => !ids.has(r.tool_call_id)).map((r) => r.tool_call_id);
+  if (unknown.length > 0) throw new ToolTurnError(`tool_results for unknown call(s): ${unknown.join(", ")}`);
+
+  const answered = toolResults.map((r) => r.tool_call_id);
+  const missing = [...ids].filter((id) => !answered.includes(id));
+  if (missing.length > 0) throw new ToolTurnError(`no tool_results for call(s): ${missing.join(", ")}`);
+  const repeated = answered.filter((id, i) => answered.indexOf(id) !== i);
+  if (repeated.length > 0) throw new ToolTurnError(`more than one result for call(s): ${[...new Set(repeated)].join(", ")}`);
+
+  const history: ChatMessage[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : [...prompt];
+  return [
+    ...history,
+    { role: "assistant", content: "", tool_calls: toolCalls },
+    ...toolResults.map((r): ChatMessage => ({ role: "tool", content: r.content, tool_call_id: r.tool_call_id })),
+  ];
+}
+
+/** Whether a query needs a backend that forwards tools */
+export function usesTools(prompt: QueryInput, options?: QueryOptions): boolean {
+  if (options?.tools?.length) return true;
+  return typeof prompt !== "string" && prompt.some((m) => m.role === "tool" || (m.tool_calls?.length ?? 0) > 0);
+}
+
+/** Tool call arguments arrive as a JSON string (OpenAI) or an object (Ollama) */
+export function parseToolArguments(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw ?? {};
+  if (raw.trim() === "") return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
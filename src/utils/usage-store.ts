@@ -0,0 +1,103 @@
+/**
+ * Usage store — append-only log of every model query, kept across restarts.
+ *
+ * logQuery only reaches stderr, which is gone when the session ends. This
+ * writes one JSON line per query to <data_dir>/usage.jsonl so usage_report
+ * can show which models we actually lean on and how often they fail.
+ *
+ * Appends are serialized through a promise chain so concurrent fan-out
+ * queries never interleave their lines. A write failure is logged and
+ * dropped — losing a usage record must never fail the query itself.
+ */
+
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import { logger } from "./logger.js";
+
+export interface UsageRecord {
+  /** Epoch milliseconds when the query finished */
+  ts: number;
+  tool: string;
+  model: string;
+  /** Backend that answered, e.g. "cliproxy" — missing when the query failed before routing */
+  provider?: string;
+  status: "ok" | "error";
+  latency_ms: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  finish_reason?: string;
+  fallback_from?: string;
+  /** Served from the response cache */
+  cached?: boolean;
+  cost_usd?: number;
+  error?: string;
+}
+
+export class UsageStore {
+  readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+  private ready: Promise<void> | null = null;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /** Queue a record for appending. Never throws. */
+  record(entry: UsageRecord): void {
+    const line = JSON.stringify(entry) + "\n";
+    this.pending = this.pending
+      .then(() => this.init())
+      .then(() => appendFile(this.path, line, "utf-8"))
+      .catch((err) => {
+        logger.warn(`usage: failed to write ${this.path}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  /** Wait until every queued record has hit the disk */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Stream records back, oldest first. Records older than `since` are
+   * skipped; malformed lines (e.g. a torn write after a crash) are ignored.
+   */
+  async *read(since = 0): AsyncGenerator<UsageRecord> {
+    await this.flush();
+
+    let stream;
+    try {
+      stream = createReadStream(this.path, { encoding: "utf-8" });
+      await new Promise<void>((resolve, reject) => {
+        stream!.once("open", () => resolve());
+        stream!.once("error", reject);
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: UsageRecord;
+      try {
+        entry = JSON.parse(line) as UsageRecord;
+      } catch {
+        continue;
+      }
+      if (typeof entry.ts !== "number" || entry.ts < since) continue;
+      yield entry;
+    }
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(dirname(this.path), { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Vision model detection — which models can read the images a prompt
+ * carries.
+ *
+ * Backends differ in what they do with an image a text-only model can't
+ * use: some return a 400, some quietly drop it and let the model answer
+ * about a picture it never saw. Neither is useful in a comparison table,
+ * so MultiProvider checks here first and fails that one model with a
+ * clear message instead.
+ *
+ * The built-in patterns cover the well-known vision families. Anything
+ * else (a local finetune, a new release) can be listed in the config's
+ * vision_models.
+ */
+
+import { getConfig } from "./config.js";
+
+/** Patterns that identify vision-capable models (case-insensitive) */
+const VISION_PATTERNS: RegExp[] = [
+  /gpt-4o/i,
+  /gpt-4\.1/i,
+  /gpt-4-turbo/i,
+  /gpt-4-vision/i,
+  /gpt-5/i,
+  /\bo1$/i,             // o1 takes images, o1-mini doesn't
+  /\bo3$/i,
+  /\bo3-pro/i,
+  /\bo4-mini/i,
+  /claude-(3|opus|sonnet|haiku)/i,
+  /gemini-(1\.5|2|3)/i,
+  /gemma-?3/i,
+  /llama-?4/i,
+  /vision/i,            // llama3.2-vision, grok-vision, ...
+  /(?:\b|\d)vl\b/i,     // qwen2.5vl, qwen-vl-max, internvl
+  /llava/i,
+  /pixtral/i,
+  /minicpm-v/i,
+  /moondream/i,
+  /mistral-small-?3\.[12]/i,
+];
+
+export class VisionUnsupportedError extends Error {
+  name = "VisionUnsupportedError" as const;
+  constructor(model: string) {
+    super(
+      `Model "${model}" doesn't accept images. Pick a vision model, or add it to vision_models in the config if it does support them.`
+    );
+  }
+}
+
+/** Same matching as the blocklist: full ID, name without the provider, or last path segment */
+function isListed(model: string, listed: string[]): boolean {
+  if (listed.length === 0) return false;
+  const modelName = model.includes("/") ? model.substring(model.indexOf("/") + 1) : model;
+  return listed.includes(model) || listed.includes(modelName) || listed.includes(model.split("/").pop() ?? "");
+}
+
+/**
+ * Check if a model can take image inputs. Read per call so config
+ * edits apply immediately.
+ */
+export function supportsVision(model: string): boolean {
+  return isListed(model, getConfig().vision_models) || VISION_PATTERNS.some((p) => p.test(model));
+}
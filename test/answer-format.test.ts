@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractAnswer, tallyAnswers } from "../src/utils/answer-format.js";
+
+describe("extractAnswer", () => {
+  it("takes the last FINAL ANSWER line for choices", () => {
+    const content = "Maybe FINAL ANSWER: A at first.\nOn reflection:\n**FINAL ANSWER: b) Paris**";
+    assert.equal(extractAnswer(content, { format: "choice" }), "B");
+    assert.equal(extractAnswer("FINAL ANSWER: E", { format: "choice" }), undefined);
+    assert.equal(extractAnswer("FINAL ANSWER: Maybe", { format: "choice", choices: ["Yes", "Maybe"] }), "Maybe");
+  });
+
+  it("normalizes numbers and booleans", () => {
+    assert.equal(extractAnswer("FINAL ANSWER: 1,234.50 km", { format: "number" }), "1234.5");
+    assert.equal(extractAnswer("FINAL ANSWER: none", { format: "number" }), undefined);
+    assert.equal(extractAnswer("FINAL ANSWER: True.", { format: "boolean" }), "yes");
+    assert.equal(extractAnswer("FINAL ANSWER: No", { format: "boolean" }), "no");
+    assert.equal(extractAnswer("no final line", { format: "boolean" }), undefined);
+  });
+
+  it("reads a field from the last JSON object", () => {
+    const content = 'Draft {"verdict": "x"}\n```json\n{"result": {"verdict": "Approve"}}\n```';
+    assert.equal(extractAnswer(content, { format: "json_field", field: "result.verdict" }), "approve");
+    assert.equal(extractAnswer(content, { format: "json_field", field: "missing" }), undefined);
+  });
+});
+
+describe("tallyAnswers", () => {
+  it("buckets equal answers, largest first, and keeps the unparseable apart", () => {
+    const answers: Record<string, string | undefined> = { m1: "B", m2: "A", m3: "B", m4: undefined };
+    const { buckets, unparseable } = tallyAnswers(Object.keys(answers), (m) => answers[m], { format: "choice" });
+    assert.deepEqual(buckets, [
+      { answer: "B", voters: ["m1", "m3"] },
+      { answer: "A", voters: ["m2"] },
+    ]);
+    assert.deepEqual(unparseable, ["m4"]);
+  });
+
+  it("clusters numbers within the tolerance", () => {
+    const answers: Record<string, string> = { m1: "42", m2: "41.9", m3: "50", m4: "42.05" };
+    const { buckets } = tallyAnswers(Object.keys(answers), (m) => answers[m], { format: "number", tolerance: 0.2 });
+    assert.deepEqual(buckets, [
+      { answer: "41.9–42.05", voters: ["m2", "m1", "m4"] },
+      { answer: "50", voters: ["m3"] },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage, Server } from "node:http";
+import { AnthropicProvider } from "../src/providers/anthropic.js";
+import { readBody, startServer, useTempConfig } from "./helpers.js";
+
+const config = useTempConfig();
+
+const usage = {
+  input_tokens: 10,
+  output_tokens: 20,
+  cache_read_input_tokens: 100,
+  cache_creation_input_tokens: 5,
+};
+
+const message = {
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  content: [
+    { type: "thinking", thinking: "Let me think." },
+    { type: "text", text: "Paris" },
+  ],
+  stop_reason: "max_tokens",
+  stop_sequence: null,
+  usage,
+};
+
+const streamEvents = [
+  { type: "message_start", message: { usage: { ...usage, output_tokens: 1 } } },
+  { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+  { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Let me " } },
+  { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "think." } },
+  { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Par" } },
+  { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "is" } },
+  { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 20 } },
+  { type: "message_stop" },
+];
+
+describe("AnthropicProvider", () => {
+  let server: Server;
+  let provider: AnthropicProvider;
+  const requests: Array<{ headers: IncomingMessage["headers"]; body: Record<string, unknown> }> = [];
+
+  before(async () => {
+    let url: string;
+    ({ server, url } = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ headers: req.headers, body });
+      if (body.stream) {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const event of streamEvents) res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        res.end();
+      } else {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(message));
+      }
+    }));
+    provider = new AnthropicProvider(url, "test-key");
+  });
+
+  after(() => {
+    server.close();
+    config.remove();
+  });
+
+  it("maps a JSON response", async () => {
+    const response = await provider.query("claude-test", "Capital of France?", { system_prompt: "Be brief." });
+
+    assert.equal(response.content, "Paris");
+    assert.equal(response.reasoning_content, "Let me think.");
+    assert.equal(response.finish_reason, "length");
+    assert.deepEqual(response.usage, {
+      prompt_tokens: 115,
+      completion_tokens: 20,
+      total_tokens: 135,
+      cache_read_tokens: 100,
+      cache_write_tokens: 5,
+    });
+
+    const { headers, body } = requests[requests.length - 1];
+    assert.equal(headers["x-api-key"], "test-key");
+    assert.equal(body.system, "Be brief.");
+    assert.deepEqual(body.messages, [{ role: "user", content: "Capital of France?" }]);
+  });
+
+  it("maps a streamed response", async () => {
+    const progress: string[] = [];
+    const response = await provider.query("claude-test", "Capital of France?", {
+      stream: true,
+      onProgress: (p) => progress.push(p.content),
+    });
+
+    assert.equal(response.content, "Paris");
+    assert.equal(response.reasoning_content, "Let me think.");
+    assert.equal(response.finish_reason, "stop");
+    assert.deepEqual(response.usage, {
+      prompt_tokens: 115,
+      completion_tokens: 20,
+      total_tokens: 135,
+      cache_read_tokens: 100,
+      cache_write_tokens: 5,
+    });
+    assert.equal(progress[progress.length - 1], "Paris");
+    assert.equal(requests[requests.length - 1].body.stream, true);
+  });
+});
@@ -0,0 +1,53 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AutoRouter } from "../src/utils/auto-router.js";
+import { MultiProvider } from "../src/providers/multi-provider.js";
+import { useTempConfig } from "./helpers.js";
+
+const config = useTempConfig({
+  aliases: { fast: "p/a" },
+  groups: { pair: ["p/a", "p/b"] },
+  auto: { candidates: ["fast", "p/a", "p/b", "p/c", "p/d"], prefer: { code: ["p/c", "p/d"] } },
+  circuit_breaker: { persist: false },
+});
+after(() => config.remove());
+
+const codePrompt = "Why does this TypeScript function throw?\n```ts\nconst f = () => { return x; };\n```";
+
+describe("AutoRouter", () => {
+  it("ranks preferred models first and never repeats a named one", async () => {
+    const router = new AutoRouter(new MultiProvider());
+    const { models, decision } = await router.resolve(["@pair", "auto:2"], codePrompt);
+
+    assert.equal(decision?.category, "code");
+    assert.deepEqual(models, ["@pair", "p/c", "p/d"]);
+  });
+
+  it("skips open circuits and says when it falls short", async () => {
+    const multi = new MultiProvider();
+    multi.register("p", {
+      name: "fake",
+      healthCheck: async () => true,
+      listModels: async () => [],
+      query: async (model: string) => ({ model, content: "", latency_ms: 1 }),
+    });
+    multi.forceOpenCircuit("p/c", 60_000);
+    const router = new AutoRouter(multi);
+    const { models, decision } = await router.resolve(["fast", "p/b", "auto:3"], codePrompt);
+
+    // "fast" is p/a, so only p/d is left
+    assert.deepEqual(models, ["fast", "p/b", "p/d"]);
+    assert.deepEqual(decision?.skipped, ["p/c"]);
+    assert.equal(decision?.wanted, 3);
+  });
+
+  it("leaves lists without auto entries alone", async () => {
+    const router = new AutoRouter(new MultiProvider());
+    assert.deepEqual(await router.resolve(["p/a", "p/b"], codePrompt), { models: ["p/a", "p/b"] });
+  });
+
+  it("rejects auto:0", async () => {
+    const router = new AutoRouter(new MultiProvider());
+    await assert.rejects(router.resolve(["p/a", "auto:0"], codePrompt), /"auto:0" asks for no models/);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chat, chatSchema } from "../src/tools/chat.js";
+import { ChatSessionStore } from "../src/utils/chat-sessions.js";
+import { ChatMessage, Provider, QueryInput } from "../src/providers/provider.js";
+
+/** Answers with the number of messages it was sent, after a delay */
+function countingProvider(delays: number[], fail = false): Provider & { seen: number[] } {
+  const seen: number[] = [];
+  return {
+    name: "fake",
+    seen,
+    healthCheck: async () => true,
+    listModels: async () => [],
+    query: async (model: string, prompt: QueryInput) => {
+      const messages = prompt as ChatMessage[];
+      await new Promise((resolve) => setTimeout(resolve, delays.shift() ?? 0));
+      if (fail) throw new Error("backend down");
+      seen.push(messages.length);
+      return { model, content: `saw ${messages.length}`, latency_ms: 1 };
+    },
+  };
+}
+
+describe("chat", () => {
+  it("only creates a session once the first turn succeeds", async () => {
+    const sessions = new ChatSessionStore();
+    await assert.rejects(
+      chat(countingProvider([], true), sessions, chatSchema.parse({ message: "hi", model: "m" })),
+      /backend down/
+    );
+    assert.equal(sessions.list().length, 0);
+
+    await chat(countingProvider([]), sessions, chatSchema.parse({ message: "hi", model: "m" }));
+    assert.equal(sessions.list().length, 1);
+    assert.equal(sessions.list()[0].messages.length, 2);
+  });
+
+  it("runs overlapping turns on one session in order", async () => {
+    const sessions = new ChatSessionStore();
+    await chat(countingProvider([]), sessions, chatSchema.parse({ message: "one", model: "m" }));
+    const id = sessions.list()[0].id;
+
+    // The first call is slower; without queueing both would see 3 messages
+    const provider = countingProvider([50, 0]);
+    await Promise.all([
+      chat(provider, sessions, chatSchema.parse({ message: "two", session_id: id })),
+      chat(provider, sessions, chatSchema.parse({ message: "three", session_id: id })),
+    ]);
+
+    assert.deepEqual(provider.seen, [3, 5]);
+    assert.deepEqual(
+      sessions.get(id).messages.filter((m) => m.role === "user").map((m) => m.content),
+      ["one", "two", "three"]
+    );
+  });
+
+  it("keeps the queue going after a failed turn", async () => {
+    const sessions = new ChatSessionStore();
+    await chat(countingProvider([]), sessions, chatSchema.parse({ message: "one", model: "m" }));
+    const id = sessions.list()[0].id;
+
+    await assert.rejects(chat(countingProvider([], true), sessions, chatSchema.parse({ message: "x", session_id: id })));
+    await chat(countingProvider([]), sessions, chatSchema.parse({ message: "two", session_id: id }));
+    assert.equal(sessions.get(id).messages.length, 4);
+  });
+});
@@ -0,0 +1,78 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { ConfigError, getConfig, loadConfig, watchConfig } from "../src/utils/config.js";
+import { useTempConfig } from "./helpers.js";
+
+const config = useTempConfig();
+const path = process.env.HYDRA_CONFIG!;
+after(() => config.remove());
+
+function writeConfig(file: unknown): void {
+  writeFileSync(path, JSON.stringify(file));
+}
+
+describe("loadConfig", () => {
+  it("fills in defaults and env fallbacks for what the file leaves out", () => {
+    process.env.HYDRA_REASONING_TIMEOUT_MS = "5000";
+    try {
+      writeConfig({ timeouts: { default_ms: 1000 }, aliases: { fast: "p/a" } });
+      const loaded = loadConfig();
+      assert.deepEqual(loaded.timeouts, { default_ms: 1000, reasoning_ms: 5000, ollama_ms: 180_000 });
+      assert.deepEqual(loaded.aliases, { fast: "p/a" });
+      assert.equal(loaded.retry.max_retries, 2);
+      assert.equal(loaded.path, path);
+    } finally {
+      delete process.env.HYDRA_REASONING_TIMEOUT_MS;
+    }
+  });
+
+  it("lists every invalid field", () => {
+    writeConfig({ timeouts: { default_ms: -1 }, unknown_section: true, aliases: { "bad/name": "x" } });
+    assert.throws(loadConfig, (err: unknown) => {
+      assert.ok(err instanceof ConfigError);
+      assert.match(err.message, /timeouts\.default_ms: /);
+      assert.match(err.message, /unknown_section/);
+      assert.match(err.message, /aliases\.bad\/name: name may only contain/);
+      return true;
+    });
+  });
+
+  it("rejects alias cycles and unparseable files", () => {
+    writeConfig({ aliases: { a: "b", b: "a" } });
+    assert.throws(loadConfig, /aliases\.a: alias cycle a → b → a/);
+
+    writeFileSync(path, "{ not json");
+    assert.throws(loadConfig, ConfigError);
+  });
+});
+
+describe("watchConfig", () => {
+  it("applies edits and keeps the old config when an edit is bad", async () => {
+    writeConfig({ timeouts: { default_ms: 1000 } });
+    loadConfig();
+    const reloads: number[] = [];
+    const stop = watchConfig((next) => reloads.push(next.timeouts.default_ms));
+    try {
+      writeConfig({ timeouts: { default_ms: 2000 } });
+      await waitFor(() => reloads.length === 1);
+      assert.equal(getConfig().timeouts.default_ms, 2000);
+
+      writeConfig({ timeouts: { default_ms: "soon" } });
+      // Past the 200ms debounce, nothing should have changed
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      assert.equal(getConfig().timeouts.default_ms, 2000);
+      assert.deepEqual(reloads, [2000]);
+    } finally {
+      stop();
+    }
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("timed out waiting for the config to reload");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
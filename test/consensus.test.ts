@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mergeGroupings } from "../src/tools/consensus.js";
+
+describe("mergeGroupings", () => {
+  it("keeps a single judge's grouping, with no agreement score", () => {
+    assert.deepEqual(mergeGroupings([[[0, 2], [1]]], 3), { groups: [[0, 2], [1]], agreement: null });
+  });
+
+  it("joins responses only when a strict majority of judges do", () => {
+    const { groups, agreement } = mergeGroupings(
+      [
+        [[0, 1], [2], [3]],
+        [[0, 1, 2], [3]],
+        [[0], [1], [2, 3]],
+      ],
+      4
+    );
+    assert.deepEqual(groups, [[0, 1], [2], [3]]);
+    // Pairs treated alike: judges 1-2 agree on 4 of 6, 1-3 on 4 of 6, 2-3 on 2 of 6
+    assert.equal(agreement, (4 / 6 + 4 / 6 + 2 / 6) / 3);
+  });
+
+  it("merges transitively", () => {
+    // 0~1 and 1~2 each have a majority, so 0, 1 and 2 end up together
+    const { groups } = mergeGroupings(
+      [
+        [[0, 1, 2]],
+        [[0, 1], [2]],
+        [[0], [1, 2]],
+      ],
+      3
+    );
+    assert.deepEqual(groups, [[0, 1, 2]]);
+  });
+
+  it("splits evenly divided panels", () => {
+    const { groups, agreement } = mergeGroupings([[[0, 1]], [[0], [1]]], 2);
+    assert.deepEqual(groups, [[0], [1]]);
+    assert.equal(agreement, 0);
+  });
+});
@@ -0,0 +1,46 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CostLedger } from "../src/utils/cost-ledger.js";
+import { Provider, QueryInput } from "../src/providers/provider.js";
+import { useTempConfig } from "./helpers.js";
+
+const config = useTempConfig({ pricing: { priced: { input_per_mtok: 1, output_per_mtok: 2 } } });
+after(() => config.remove());
+
+/** Every query uses a million tokens in and out */
+const provider: Provider = {
+  name: "fake",
+  healthCheck: async () => true,
+  listModels: async () => [],
+  query: async (model: string, _prompt: QueryInput) => ({
+    model,
+    content: "ok",
+    latency_ms: 1,
+    usage: { prompt_tokens: 1_000_000, completion_tokens: 1_000_000, total_tokens: 2_000_000 },
+  }),
+};
+
+describe("CostLedger.formatFooter", () => {
+  it("shows the cost when only some queries were priced", async () => {
+    const ledger = new CostLedger();
+    const call = ledger.startCall("test");
+    const metered = call.provider(provider);
+    // Two unpriced queries to one model and one priced: more queries than unpriced models
+    await metered.query("free", "hi");
+    await metered.query("free", "hi");
+    await metered.query("priced", "hi");
+
+    assert.equal(call.pricedQueries, 1);
+    assert.match(ledger.formatFooter(call), /\*\*Cost:\*\* \$3\.00 this call · \$3\.00 this session \(no price for free\)/);
+  });
+
+  it("stays silent when nothing was priced and there is no budget", async () => {
+    const ledger = new CostLedger();
+    const call = ledger.startCall("test");
+    const metered = call.provider(provider);
+    await metered.query("free", "hi");
+    await metered.query("free", "hi");
+
+    assert.equal(ledger.formatFooter(call), "");
+  });
+});
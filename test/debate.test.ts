@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { debate, debateSchema } from "../src/tools/debate.js";
+import { ChatMessage, Provider, QueryInput } from "../src/providers/provider.js";
+
+/** a changes its mind in round 2, b never does, c fails from round 2 on */
+function debateProvider(): Provider & { prompts: Map<string, QueryInput[]> } {
+  const prompts = new Map<string, QueryInput[]>();
+  return {
+    name: "fake",
+    prompts,
+    healthCheck: async () => true,
+    listModels: async () => [],
+    query: async (model: string, prompt: QueryInput) => {
+      const seen = prompts.get(model) ?? [];
+      // debate keeps appending to the history it passed in, so keep a copy
+      seen.push(typeof prompt === "string" ? prompt : [...prompt]);
+      prompts.set(model, seen);
+      const round = seen.length;
+
+      if (model === "mod") return { model, content: "b wins.", latency_ms: 1 };
+      if (model === "c" && round > 1) throw new Error("backend down");
+      if (round === 1) return { model, content: `${model} opens`, latency_ms: 1 };
+      if (model === "a" && round === 2) return { model, content: "POSITION: CHANGED\na agrees with b", latency_ms: 1 };
+      return { model, content: `POSITION: MAINTAINED\n${model} holds`, latency_ms: 1 };
+    },
+  };
+}
+
+describe("debate", () => {
+  it("tracks position changes, drops failed participants and asks the moderator", async () => {
+    const provider = debateProvider();
+    const output = await debate(
+      provider,
+      debateSchema.parse({ models: ["a", "b", "c"], prompt: "Who is right?", rounds: 3, moderator_model: "mod" })
+    );
+
+    // c failed in round 2 and sat out round 3
+    assert.equal(provider.prompts.get("c")?.length, 2);
+    assert.match(output, /\| a \| \*\*changed\*\* \| maintained \|/);
+    assert.match(output, /\| b \| maintained \| maintained \|/);
+    assert.match(output, /\| c \| failed \| — \|/);
+    assert.match(output, /\*\*Changed their minds:\*\* a/);
+    assert.match(output, /### Verdict\n\nb wins\./);
+    assert.match(output, /- \*\*c\*\* \(round 2\): backend down/);
+    // c's last good answer is still among the final positions
+    assert.match(output, /#### c \(round 1\)\n\nc opens/);
+  });
+
+  it("gives each participant its own history and the others' answers", async () => {
+    const provider = debateProvider();
+    await debate(provider, debateSchema.parse({ models: ["a", "b"], prompt: "Who is right?", rounds: 3 }));
+
+    const third = provider.prompts.get("a")?.[2] as ChatMessage[];
+    assert.deepEqual(
+      third.map((m) => m.role),
+      ["user", "assistant", "user", "assistant", "user"]
+    );
+    assert.equal(third[3].content, "a agrees with b");
+    assert.match(third[4].content, /### b\nb holds/);
+    assert.doesNotMatch(third[4].content, /### a/);
+  });
+});
@@ -0,0 +1,75 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffRuns } from "../src/tools/run-eval.js";
+import { EvalItemResult, EvalRun, EvalRunStore } from "../src/utils/eval-runs.js";
+
+function run(id: string, results: Array<Partial<EvalItemResult> & Pick<EvalItemResult, "item" | "model" | "status">>): EvalRun {
+  return {
+    version: 1,
+    id,
+    suite: "smoke",
+    suite_path: "smoke.jsonl",
+    started_at: 0,
+    finished_at: 1,
+    models: [...new Set(results.map((r) => r.model))],
+    items: new Set(results.map((r) => r.item)).size,
+    results: results.map((r) => ({ output: "", latency_ms: 1, ...r })),
+  };
+}
+
+describe("diffRuns", () => {
+  it("reports regressions, fixes and accuracy on the items both runs graded", () => {
+    const baseline = run("2026-01-01T00-00-00-000Z", [
+      { model: "m", item: "q1", status: "pass" },
+      { model: "m", item: "q2", status: "fail" },
+      { model: "m", item: "q3", status: "pass" },
+      { model: "m", item: "q4", status: "ungraded" },
+    ]);
+    const current = run("2026-01-02T00-00-00-000Z", [
+      { model: "m", item: "q1", status: "fail", note: "wrong answer" },
+      { model: "m", item: "q2", status: "pass" },
+      { model: "m", item: "q3", status: "pass" },
+      { model: "m", item: "q4", status: "pass" },
+      { model: "m", item: "q5", status: "pass" },
+    ]);
+
+    const diff = diffRuns(baseline, current);
+    assert.equal(diff.baseline, "2026-01-01T00-00-00-000Z");
+    assert.deepEqual(diff.regressions, [{ model: "m", item: "q1", note: "wrong answer" }]);
+    assert.deepEqual(diff.fixes, [{ model: "m", item: "q2" }]);
+    // q4 was ungraded before and q5 is new, so neither counts
+    assert.deepEqual(diff.models, [{ model: "m", before: 2 / 3, after: 2 / 3 }]);
+    assert.deepEqual(diff.swaps, []);
+  });
+
+  it("notices when the backend starts serving a different model", () => {
+    const baseline = run("2026-01-01T00-00-00-000Z", [{ model: "m", item: "q1", status: "pass", served_model: "m-0401" }]);
+    const current = run("2026-01-02T00-00-00-000Z", [{ model: "m", item: "q1", status: "pass", served_model: "m-0615" }]);
+    assert.deepEqual(diffRuns(baseline, current).swaps, [{ model: "m", before: ["m-0401"], after: ["m-0615"] }]);
+  });
+});
+
+describe("EvalRunStore", () => {
+  const dir = mkdtempSync(join(tmpdir(), "hydra-evals-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("finds the previous run of the same suite", async () => {
+    const store = new EvalRunStore(dir);
+    const ids = ["2026-01-01T00-00-00-000Z", "2026-01-02T00-00-00-000Z", "2026-01-03T00-00-00-000Z"];
+    for (const id of ids) await store.save(run(id, [{ model: "m", item: "q1", status: "pass" }]));
+
+    assert.deepEqual(await store.list("smoke"), ids);
+    assert.equal((await store.previous("smoke", ids[2]))?.id, ids[1]);
+    assert.equal(await store.previous("smoke", ids[0]), undefined);
+    assert.deepEqual(await store.list("other"), []);
+  });
+
+  it("only loads well-formed run IDs", async () => {
+    const store = new EvalRunStore(dir);
+    await assert.rejects(store.load("smoke", "../../etc/passwd"), /is not a run ID/);
+    await assert.rejects(store.load("smoke", "2025-01-01T00-00-00-000Z"), /No run "2025-01-01T00-00-00-000Z" for suite "smoke"/);
+  });
+});
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { fetchWithTimeout, TimeoutError } from "../src/utils/fetch-with-timeout.js";
+
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    res.writeHead(200);
+    // /steady sends a chunk every 60ms, /stall sends one and goes quiet
+    const chunks = req.url === "/steady" ? 4 : 1;
+    let sent = 0;
+    const tick = () => {
+      res.write("x");
+      if (++sent < chunks) setTimeout(tick, 60);
+      else if (req.url === "/steady") res.end();
+    };
+    tick();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe("fetchWithTimeout", () => {
+  it("lets a body run past the timeout while data keeps coming", async () => {
+    const res = await fetchWithTimeout(`${base}/steady`, undefined, 150);
+    assert.equal(await res.text(), "xxxx");
+  });
+
+  it("fails a body that stalls", async () => {
+    const res = await fetchWithTimeout(`${base}/stall`, undefined, 150);
+    await assert.rejects(res.text(), (err: unknown) => err instanceof TimeoutError && /stalled/.test(err.message));
+  });
+
+  it("lets an unread body be cancelled", async () => {
+    const res = await fetchWithTimeout(`${base}/stall`, undefined, 150);
+    await res.body?.cancel();
+    assert.equal(res.ok, true);
+  });
+});
@@ -0,0 +1,110 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage, Server } from "node:http";
+import { GeminiProvider } from "../src/providers/gemini.js";
+import { readBody, startServer, useTempConfig } from "./helpers.js";
+
+const config = useTempConfig();
+
+const usageMetadata = { promptTokenCount: 10, candidatesTokenCount: 2, thoughtsTokenCount: 30, totalTokenCount: 42 };
+
+const reply = {
+  candidates: [
+    {
+      content: { parts: [{ text: "Let me think.", thought: true }, { text: "Paris" }] },
+      finishReason: "MAX_TOKENS",
+    },
+  ],
+  usageMetadata,
+};
+
+const streamChunks = [
+  { candidates: [{ content: { parts: [{ text: "Let me think.", thought: true }] } }] },
+  { candidates: [{ content: { parts: [{ text: "Par" }] } }] },
+  { candidates: [{ content: { parts: [{ text: "is" }] }, finishReason: "STOP" }], usageMetadata },
+];
+
+describe("GeminiProvider", () => {
+  let server: Server;
+  let provider: GeminiProvider;
+  const requests: Array<{ url: string; headers: IncomingMessage["headers"]; body: Record<string, unknown> }> = [];
+
+  before(async () => {
+    let url: string;
+    ({ server, url } = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ url: req.url ?? "", headers: req.headers, body });
+      if (req.url?.includes(":streamGenerateContent")) {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const chunk of streamChunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        res.end();
+      } else {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(reply));
+      }
+    }));
+    provider = new GeminiProvider(url, "test-key");
+  });
+
+  after(() => {
+    server.close();
+    config.remove();
+  });
+
+  it("maps a JSON response, thoughts and all", async () => {
+    const response = await provider.query(
+      "gemini-2.5-flash",
+      [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "user", content: "Capital of France?" },
+      ],
+      { system_prompt: "Be brief.", max_tokens: 100 }
+    );
+
+    assert.equal(response.content, "Paris");
+    assert.equal(response.reasoning_content, "Let me think.");
+    assert.equal(response.finish_reason, "length");
+    assert.deepEqual(response.usage, { prompt_tokens: 10, completion_tokens: 32, total_tokens: 42, reasoning_tokens: 30 });
+
+    const { url, headers, body } = requests[requests.length - 1];
+    assert.equal(url, "/v1beta/models/gemini-2.5-flash:generateContent");
+    assert.equal(headers["x-goog-api-key"], "test-key");
+    assert.deepEqual(body.systemInstruction, { parts: [{ text: "Be brief." }] });
+    assert.deepEqual(
+      (body.contents as Array<{ role: string }>).map((c) => c.role),
+      ["user", "model", "user"]
+    );
+    // The default thinking budget is reserved on top of max_tokens
+    assert.deepEqual(body.generationConfig, {
+      maxOutputTokens: 4196,
+      thinkingConfig: { thinkingBudget: 4096, includeThoughts: true },
+    });
+  });
+
+  it("turns thinking off with a budget of 0, and leaves other models alone", async () => {
+    await provider.query("gemini-2.5-flash", "Hi", { thinking_budget: 0, max_tokens: 100 });
+    assert.deepEqual(requests[requests.length - 1].body.generationConfig, {
+      maxOutputTokens: 100,
+      thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+    });
+
+    await provider.query("gemini-1.5-pro", "Hi", { max_tokens: 100 });
+    assert.deepEqual(requests[requests.length - 1].body.generationConfig, { maxOutputTokens: 100 });
+  });
+
+  it("maps a streamed response", async () => {
+    const progress: string[] = [];
+    const response = await provider.query("gemini-2.5-flash", "Capital of France?", {
+      stream: true,
+      onProgress: (p) => progress.push(p.content),
+    });
+
+    assert.equal(response.content, "Paris");
+    assert.equal(response.reasoning_content, "Let me think.");
+    assert.equal(response.finish_reason, "stop");
+    assert.equal(response.usage?.total_tokens, 42);
+    assert.equal(progress[progress.length - 1], "Paris");
+    assert.equal(requests[requests.length - 1].url, "/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse");
+  });
+});
@@ -0,0 +1,32 @@
+import { createServer, IncomingMessage, RequestListener, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Point HYDRA_CONFIG at a fresh temp config so tests run on defaults
+ * (plus the given overrides), whatever hydra.config.json the checkout has.
+ * Call before anything reads the config; remove() cleans up.
+ */
+export function useTempConfig(overrides: Record<string, unknown> = {}): { dir: string; remove: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), "hydra-test-"));
+  const config = { data_dir: dir, retry: { max_retries: 0 }, ...overrides };
+  writeFileSync(join(dir, "hydra.config.json"), JSON.stringify(config));
+  process.env.HYDRA_CONFIG = join(dir, "hydra.config.json");
+  return { dir, remove: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+export async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+/** Start an HTTP server on a free local port */
+export async function startServer(handler: RequestListener): Promise<{ server: Server; url: string }> {
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}` };
+}
@@ -0,0 +1,97 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { request, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpServer } from "../src/http-server.js";
+
+const TOKEN = "secret";
+const IDLE_MS = 50;
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1" } },
+};
+
+/** node:http rather than fetch, which won't send a Host header of our choosing */
+function send(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: unknown }
+): Promise<{ status: number; headers: Record<string, string | string[] | undefined> }> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: options.method ?? "POST", headers: options.headers }, (res) => {
+      res.resume();
+      resolve({ status: res.statusCode ?? 0, headers: res.headers });
+    });
+    req.on("error", reject);
+    req.end(options.body === undefined ? undefined : JSON.stringify(options.body));
+  });
+}
+
+describe("startHttpServer", () => {
+  let server: Server;
+  let url: string;
+  let headers: Record<string, string>;
+
+  before(async () => {
+    server = await startHttpServer(() => new McpServer({ name: "test", version: "1" }), {
+      host: "127.0.0.1",
+      port: 0,
+      authToken: TOKEN,
+      sessionIdleMs: IDLE_MS,
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+    headers = {
+      authorization: `Bearer ${TOKEN}`,
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+    };
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  async function startSession(): Promise<string> {
+    const res = await send(url, { headers, body: initialize });
+    assert.equal(res.status, 200);
+    const id = String(res.headers["mcp-session-id"]);
+    await send(url, { headers: { ...headers, "mcp-session-id": id }, body: { jsonrpc: "2.0", method: "notifications/initialized" } });
+    return id;
+  }
+
+  it("needs the bearer token", async () => {
+    const { authorization: _, ...anonymous } = headers;
+    assert.equal((await send(url, { headers: anonymous, body: initialize })).status, 401);
+    assert.equal((await send(url, { headers: { ...headers, authorization: "Bearer wrong" }, body: initialize })).status, 401);
+  });
+
+  it("refuses foreign Host and Origin headers", async () => {
+    assert.equal((await send(url, { headers: { ...headers, host: "evil.example" }, body: initialize })).status, 403);
+    assert.equal((await send(url, { headers: { ...headers, origin: "http://evil.example" }, body: initialize })).status, 403);
+    const { port } = server.address() as AddressInfo;
+    assert.equal((await send(url, { headers: { ...headers, origin: `http://localhost:${port}` }, body: initialize })).status, 200);
+  });
+
+  it("keeps a session with an open stream past the idle timeout", async () => {
+    const id = await startSession();
+    const stream = new AbortController();
+    const res = await fetch(url, {
+      headers: { ...headers, "mcp-session-id": id, accept: "text/event-stream" },
+      signal: stream.signal,
+    });
+    assert.equal(res.status, 200);
+
+    await new Promise((resolve) => setTimeout(resolve, IDLE_MS * 4));
+    const ping = { jsonrpc: "2.0", id: 2, method: "ping" };
+    assert.equal((await send(url, { headers: { ...headers, "mcp-session-id": id }, body: ping })).status, 200);
+
+    // Once the stream closes the session can go idle
+    stream.abort();
+    await new Promise((resolve) => setTimeout(resolve, IDLE_MS * 4));
+    assert.equal((await send(url, { headers: { ...headers, "mcp-session-id": id }, body: ping })).status, 404);
+  });
+});
@@ -0,0 +1,78 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadImages, withImages } from "../src/utils/images.js";
+import { confinePath, FileAccessError, FileScope } from "../src/utils/file-access.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+
+const dir = mkdtempSync(join(tmpdir(), "hydra-images-"));
+const root = join(dir, "allowed");
+mkdirSync(root);
+writeFileSync(join(root, "pic.png"), PNG);
+writeFileSync(join(root, "notes.txt"), "not an image at all");
+writeFileSync(join(dir, "secret.png"), PNG);
+symlinkSync(join(dir, "secret.png"), join(root, "link.png"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const scope: FileScope = { root, setting: "http.image_dir" };
+
+describe("loadImages", () => {
+  it("reads files and base64, typing them by their bytes", async () => {
+    const base64 = PNG.toString("base64");
+    const images = await loadImages([
+      { path: join(root, "pic.png") },
+      { data: base64 },
+      { data: `data:image/png;base64,${base64}` },
+    ]);
+    assert.deepEqual(images, [
+      { mime_type: "image/png", data: base64 },
+      { mime_type: "image/png", data: base64 },
+      { mime_type: "image/png", data: base64 },
+    ]);
+    assert.deepEqual(withImages("What is this?", images.slice(0, 1)), [
+      { role: "user", content: "What is this?", images: images.slice(0, 1) },
+    ]);
+    assert.equal(withImages("Hi", []), "Hi");
+  });
+
+  it("refuses anything that isn't an image, whatever it claims", async () => {
+    await assert.rejects(
+      loadImages([{ path: join(root, "notes.txt") }]),
+      /^ImageInputError: Image 1: not a PNG, JPEG, GIF or WebP image/
+    );
+    await assert.rejects(
+      loadImages([{ data: PNG.toString("base64"), mime_type: "image/jpeg" }]),
+      /mime_type says image\/jpeg, but the data is image\/png/
+    );
+    await assert.rejects(loadImages([{ data: "aGVsbG8=", mime_type: "text/plain" }]), /unsupported type "text\/plain"/);
+    await assert.rejects(loadImages([{ data: "not base64!" }]), /data is not valid base64/);
+  });
+
+  it("confines paths to the scope's directory", async () => {
+    const [image] = await loadImages([{ path: "pic.png" }], scope);
+    assert.equal(image.mime_type, "image/png");
+    await assert.rejects(loadImages([{ path: "../secret.png" }], scope), /Image 1: \.\.\/secret\.png is outside http\.image_dir/);
+  });
+});
+
+describe("confinePath", () => {
+  it("passes any path through without a scope", async () => {
+    assert.equal(await confinePath("/etc/hosts", undefined), "/etc/hosts");
+  });
+
+  it("refuses every path when no directory is configured", async () => {
+    await assert.rejects(confinePath("pic.png", { root: null, setting: "http.image_dir" }), FileAccessError);
+  });
+
+  it("follows symlinks before checking containment", async () => {
+    await assert.rejects(confinePath("link.png", scope), /link\.png is outside http\.image_dir/);
+    await assert.rejects(confinePath(join(dir, "secret.png"), scope), /is outside/);
+  });
+
+  it("doesn't say whether a file outside exists", async () => {
+    await assert.rejects(confinePath("../missing.png", scope), /\.\.\/missing\.png not found under http\.image_dir/);
+  });
+});
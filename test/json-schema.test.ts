@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseJsonText, schemaPatternErrors, validateJsonSchema } from "../src/utils/json-schema.js";
+
+const person = {
+  type: "object",
+  required: ["name", "age"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, pattern: "^[A-Z]" },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", maxItems: 2, items: { enum: ["a", "b"] } },
+  },
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts a matching value", () => {
+    assert.deepEqual(validateJsonSchema({ name: "Ada", age: 36, tags: ["a"] }, person), []);
+  });
+
+  it("reports every problem with its path", () => {
+    const errors = validateJsonSchema({ name: "ada", age: 1.5, tags: ["c", "a", "b"], extra: true }, person);
+    assert.deepEqual(errors.sort(), [
+      "$.age: expected integer, got number",
+      "$.extra: property not allowed",
+      '$.name: doesn\'t match /^[A-Z]/',
+      "$.tags: more than 2 items",
+      '$.tags[0]: must be one of "a", "b"',
+    ]);
+  });
+
+  it("reports missing required properties and wrong top-level types", () => {
+    assert.deepEqual(validateJsonSchema({ name: "Ada" }, person), ['$: missing required property "age"']);
+    assert.deepEqual(validateJsonSchema([], person), ["$: expected object, got array"]);
+  });
+
+  it("needs one anyOf branch to match", () => {
+    const schema = { anyOf: [{ type: "string" }, { type: "number", minimum: 10 }] };
+    assert.deepEqual(validateJsonSchema("x", schema), []);
+    assert.deepEqual(validateJsonSchema(12, schema), []);
+    assert.deepEqual(validateJsonSchema(3, schema), ["$: doesn't match any of the allowed shapes"]);
+  });
+});
+
+describe("parseJsonText", () => {
+  it("reads bare JSON, fenced blocks and JSON inside prose", () => {
+    assert.deepEqual(parseJsonText(' {"a": 1} '), { a: 1 });
+    assert.deepEqual(parseJsonText('Here:\n```json\n{"a": 2}\n```\nDone.'), { a: 2 });
+    assert.deepEqual(parseJsonText('The answer is {"a": [3]} as requested.'), { a: [3] });
+  });
+
+  it("returns undefined when nothing parses", () => {
+    assert.equal(parseJsonText("no json here"), undefined);
+    assert.equal(parseJsonText("{not: json}"), undefined);
+  });
+});
+
+describe("schemaPatternErrors", () => {
+  it("finds patterns that don't compile, however deep", () => {
+    const schema = {
+      properties: {
+        ok: { pattern: "^a+$" },
+        list: { items: { anyOf: [{ pattern: "([" }] } },
+      },
+      additionalProperties: { pattern: 5 },
+    };
+    const errors = schemaPatternErrors(schema);
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /^\$\.properties\.list\.items\.anyOf\[0\]\.pattern: /);
+    assert.equal(errors[1], "$.additionalProperties.pattern: must be a string");
+  });
+
+  it("passes schemas without bad patterns", () => {
+    assert.deepEqual(schemaPatternErrors(person), []);
+  });
+});
@@ -0,0 +1,58 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandModels, ModelGroupError, resolveAlias } from "../src/utils/model-aliases.js";
+import { MultiProvider } from "../src/providers/multi-provider.js";
+import { Provider, QueryInput } from "../src/providers/provider.js";
+import { useTempConfig } from "./helpers.js";
+
+const config = useTempConfig({
+  aliases: { fast: "smart", smart: "p/big" },
+  groups: { frontier: ["smart", "p/other"], duo: ["p/other", "p/third"] },
+  circuit_breaker: { persist: false },
+});
+after(() => config.remove());
+
+describe("resolveAlias", () => {
+  it("follows alias chains and leaves real IDs alone", () => {
+    assert.equal(resolveAlias("fast"), "p/big");
+    assert.equal(resolveAlias("p/big"), "p/big");
+  });
+});
+
+describe("expandModels", () => {
+  it("expands groups, keeps aliases as written and drops duplicates", () => {
+    assert.deepEqual(expandModels(["@frontier", "@duo", "smart"], 2, 5), ["smart", "p/other", "p/third"]);
+  });
+
+  it("checks the count after expanding", () => {
+    assert.throws(() => expandModels(["@frontier", "@duo"], 4, 5), /Expected 4-5 models, got 3 after expanding groups/);
+  });
+
+  it("names the available groups when one is unknown", () => {
+    assert.throws(
+      () => expandModels(["@nope", "p/a"], 2, 5),
+      (err: unknown) => err instanceof ModelGroupError && /Available: @frontier, @duo/.test(err.message)
+    );
+  });
+});
+
+describe("MultiProvider with aliases", () => {
+  it("queries the model an alias points at, and refuses groups", async () => {
+    const asked: string[] = [];
+    const multi = new MultiProvider();
+    const provider: Provider = {
+      name: "fake",
+      healthCheck: async () => true,
+      listModels: async () => [],
+      query: async (model: string, _prompt: QueryInput) => {
+        asked.push(model);
+        return { model, content: "ok", latency_ms: 1 };
+      },
+    };
+    multi.register("p", provider);
+
+    await multi.query("fast", "hi");
+    assert.deepEqual(asked, ["big"]);
+    await assert.rejects(multi.query("@frontier", "hi"), /is a model group/);
+  });
+});
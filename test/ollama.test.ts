@@ -0,0 +1,49 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { OllamaProvider } from "../src/providers/ollama.js";
+import { readBody, startServer, useTempConfig } from "./helpers.js";
+
+const config = useTempConfig();
+
+const chunks = [
+  { message: { content: "Par" }, done: false },
+  { message: { content: "is" }, done: false },
+  { message: { content: "" }, done: true, done_reason: "stop", prompt_eval_count: 7, eval_count: 2 },
+];
+
+describe("OllamaProvider", () => {
+  let server: Server;
+  let provider: OllamaProvider;
+
+  before(async () => {
+    let url: string;
+    ({ server, url } = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      res.writeHead(200, { "content-type": "application/x-ndjson" });
+      if (body.model === "broken") {
+        res.write(JSON.stringify(chunks[0]) + "\n");
+        res.end(JSON.stringify({ error: "model runner has unexpectedly stopped" }) + "\n");
+      } else {
+        res.end(chunks.map((c) => JSON.stringify(c)).join("\n") + "\n");
+      }
+    }));
+    provider = new OllamaProvider(url);
+  });
+
+  after(() => {
+    server.close();
+    config.remove();
+  });
+
+  it("accumulates a streamed response", async () => {
+    const response = await provider.query("llama", "Capital of France?", { stream: true });
+    assert.equal(response.content, "Paris");
+    assert.equal(response.finish_reason, "stop");
+    assert.deepEqual(response.usage, { prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 });
+  });
+
+  it("fails on an error chunk mid-stream", async () => {
+    await assert.rejects(provider.query("broken", "Capital of France?", { stream: true }), /unexpectedly stopped/);
+  });
+});
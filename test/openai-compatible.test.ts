@@ -0,0 +1,101 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage, Server } from "node:http";
+import { OpenAICompatibleProvider } from "../src/providers/openai-compatible.js";
+import { readBody, startServer, useTempConfig } from "./helpers.js";
+
+const config = useTempConfig();
+
+const usage = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+
+const streamChunks = [
+  { choices: [{ delta: { content: "Par" } }] },
+  { choices: [{ delta: { content: "is" }, finish_reason: "stop" }] },
+  { choices: [], usage },
+];
+
+describe("OpenAICompatibleProvider", () => {
+  let server: Server;
+  let provider: OpenAICompatibleProvider;
+  const requests: Array<{ headers: IncomingMessage["headers"]; body: Record<string, unknown> }> = [];
+
+  before(async () => {
+    let url: string;
+    ({ server, url } = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ headers: req.headers, body });
+      // "strict" stands in for a server without json_schema support
+      if (body.model === "strict" && body.response_format) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "response_format is not supported" } }));
+      } else if (body.stream) {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const chunk of streamChunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        res.end("data: [DONE]\n\n");
+      } else {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ choices: [{ message: { content: '{"city": "Paris"}' }, finish_reason: "stop" }], usage }));
+      }
+    }));
+    // A trailing /v1 is tolerated
+    provider = new OpenAICompatibleProvider({
+      name: "test",
+      baseUrl: `${url}/v1`,
+      apiKey: "test-key",
+      headers: { "x-org": "o1" },
+    });
+  });
+
+  after(() => {
+    server.close();
+    config.remove();
+  });
+
+  it("maps a JSON response", async () => {
+    const response = await provider.query("gpt-test", "Capital of France?", { system_prompt: "Be brief.", temperature: 0 });
+
+    assert.equal(response.content, '{"city": "Paris"}');
+    assert.equal(response.finish_reason, "stop");
+    assert.deepEqual(response.usage, usage);
+
+    const { headers, body } = requests[requests.length - 1];
+    assert.equal(headers.authorization, "Bearer test-key");
+    assert.equal(headers["x-org"], "o1");
+    assert.equal(body.temperature, 0);
+    assert.deepEqual(body.messages, [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Capital of France?" },
+    ]);
+  });
+
+  it("maps a streamed response", async () => {
+    const progress: string[] = [];
+    const response = await provider.query("gpt-test", "Capital of France?", {
+      stream: true,
+      onProgress: (p) => progress.push(p.content),
+    });
+
+    assert.equal(response.content, "Paris");
+    assert.deepEqual(response.usage, usage);
+    assert.deepEqual(progress, ["Par", "Paris"]);
+    assert.deepEqual(requests[requests.length - 1].body.stream_options, { include_usage: true });
+  });
+
+  it("retries without response_format after a 400, then stops sending it", async () => {
+    const schema = { type: "object" };
+    requests.length = 0;
+    await provider.query("strict", "Capital of France?", { response_schema: schema });
+    assert.deepEqual(
+      requests.map((r) => r.body.response_format !== undefined),
+      [true, false]
+    );
+
+    await provider.query("strict", "Capital of France?", { response_schema: schema });
+    assert.equal(requests.length, 3);
+    assert.equal(requests[2].body.response_format, undefined);
+
+    // Other models still get it
+    await provider.query("gpt-test", "Capital of France?", { response_schema: schema });
+    assert.deepEqual(requests[3].body.response_format, { type: "json_schema", json_schema: { name: "response", schema } });
+  });
+});
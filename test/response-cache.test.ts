@@ -0,0 +1,61 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ResponseCache } from "../src/utils/response-cache.js";
+import { QueryResponse } from "../src/providers/provider.js";
+
+const root = mkdtempSync(join(tmpdir(), "hydra-cache-"));
+after(() => rmSync(root, { recursive: true, force: true }));
+
+let dirs = 0;
+function newCache(options: { ttlMs?: number; maxBytes?: number } = {}): { cache: ResponseCache; dir: string } {
+  const dir = join(root, String(dirs++));
+  return { cache: new ResponseCache({ dir, ttlMs: options.ttlMs ?? 60_000, maxBytes: options.maxBytes ?? 1_000_000 }), dir };
+}
+
+function response(content: string): QueryResponse {
+  return { model: "m", content, latency_ms: 1 };
+}
+
+describe("ResponseCache", () => {
+  it("survives concurrent writes of the same key", async () => {
+    const { cache, dir } = newCache();
+    const key = ResponseCache.keyFor({ prompt: "hi" });
+    await Promise.all(["one", "two", "three"].map((c) => cache.set(key, response(c))));
+
+    const hit = await cache.get(key);
+    assert.ok(["one", "two", "three"].includes(hit?.response.content ?? ""));
+    assert.deepEqual(readdirSync(dir), [`${key}.json`]);
+  });
+
+  it("reloads entries from disk", async () => {
+    const { cache, dir } = newCache();
+    await cache.set("k", response("kept"));
+    const reopened = new ResponseCache({ dir, ttlMs: 60_000, maxBytes: 1_000_000 });
+    assert.equal((await reopened.get("k"))?.response.content, "kept");
+  });
+
+  it("expires entries after the TTL", async () => {
+    const { cache } = newCache({ ttlMs: 20 });
+    await cache.set("k", response("old"));
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.equal(await cache.get("k"), null);
+  });
+
+  it("evicts the least recently used entry when over the size limit", async () => {
+    // Room for two entries, not three
+    const size = JSON.stringify({ key: "a", stored_at: Date.now(), response: response("x") }).length;
+    const { cache } = newCache({ maxBytes: size * 2 + 10 });
+    await cache.set("a", response("x"));
+    await cache.set("b", response("x"));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.get("a");
+    await cache.set("c", response("x"));
+
+    assert.equal(await cache.get("b"), null);
+    assert.ok(await cache.get("a"));
+    assert.ok(await cache.get("c"));
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Provider, QueryInput } from "../src/providers/provider.js";
+import { queryStructured, StructuredOutputError } from "../src/utils/structured-output.js";
+
+/** Replies with the given answers in turn and counts the calls */
+function scriptedProvider(replies: string[]): Provider & { calls: number } {
+  const provider = {
+    name: "fake",
+    calls: 0,
+    healthCheck: async () => true,
+    listModels: async () => [],
+    query: async (model: string, _prompt: QueryInput) => {
+      provider.calls++;
+      return { model, content: replies.shift() ?? "", latency_ms: 1 };
+    },
+  };
+  return provider;
+}
+
+const schema = { type: "object", required: ["n"], properties: { n: { type: "integer" } } };
+
+describe("queryStructured", () => {
+  it("re-prompts until the answer matches", async () => {
+    const provider = scriptedProvider(["not json", '{"n": "x"}', '{"n": 3}']);
+    const result = await queryStructured(provider, "m", "Pick a number", schema);
+    assert.deepEqual(result.value, { n: 3 });
+    assert.equal(result.repairs, 2);
+  });
+
+  it("gives up after maxRepairs", async () => {
+    const provider = scriptedProvider(["no", "still no"]);
+    await assert.rejects(queryStructured(provider, "m", "Pick a number", schema, {}, 1), StructuredOutputError);
+    assert.equal(provider.calls, 2);
+  });
+
+  it("rejects a schema with a bad pattern before querying", async () => {
+    const provider = scriptedProvider(['{"n": 3}']);
+    const bad = { type: "object", properties: { s: { type: "string", pattern: "([" } } };
+    await assert.rejects(queryStructured(provider, "m", "Hi", bad), /^Error: Invalid response_schema: response_schema\.properties\.s\.pattern: /);
+    assert.equal(provider.calls, 0);
+  });
+});
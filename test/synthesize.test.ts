@@ -0,0 +1,72 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { synthesize, synthesizeSchema } from "../src/tools/synthesize.js";
+import { Provider, QueryInput } from "../src/providers/provider.js";
+import { useTempConfig } from "./helpers.js";
+
+// Ten tokens per query at this price is exactly $1
+const price = { input_per_mtok: 100_000, output_per_mtok: 100_000 };
+const config = useTempConfig({ pricing: { a: price, b: price, s: price } });
+after(() => config.remove());
+
+function promptText(prompt: QueryInput): string {
+  return typeof prompt === "string" ? prompt : prompt.map((m) => m.content).join("\n");
+}
+
+/** Answers by what the prompt asks for; `reply` decides the synthesizer's and critics' turns */
+function scriptedProvider(reply: (model: string, prompt: string) => string | undefined): Provider {
+  return {
+    name: "fake",
+    healthCheck: async () => true,
+    listModels: async () => [],
+    query: async (model: string, prompt: QueryInput) => ({
+      model,
+      content: reply(model, promptText(prompt)) ?? `${model} says hello`,
+      latency_ms: 1,
+      usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+    }),
+  };
+}
+
+describe("synthesize", () => {
+  it("cites sources and flags novel paragraphs", async () => {
+    const provider = scriptedProvider((_model, prompt) =>
+      prompt.includes("citing where each part came from")
+        ? JSON.stringify({ paragraphs: [{ text: "Both agree.", sources: [1, 2] }, { text: "An aside.", sources: [] }] })
+        : undefined
+    );
+    const output = await synthesize(
+      provider,
+      synthesizeSchema.parse({ models: ["a", "b"], prompt: "Hi?", synthesizer_model: "s", attribution: true })
+    );
+
+    assert.match(output, /^Both agree\. \[1\]\[2\]$/m);
+    assert.match(output, /^An aside\. \*\*\[novel\]\*\*$/m);
+    assert.match(output, /\| \[1\] \| a \| 1\/2 \|/);
+    assert.match(output, /\*\*Novel:\*\* 1\/2 paragraph/);
+  });
+
+  it("revises until the critics approve and counts the refinement in the metrics", async () => {
+    let reviews = 0;
+    const provider = scriptedProvider((model, prompt) => {
+      if (prompt.startsWith("You are reviewing a draft")) {
+        // a wants one fix in round 1 and approves after that
+        return model === "a" && reviews++ === 0 ? "VERDICT: REVISE\n- Missing the greeting" : "VERDICT: APPROVE";
+      }
+      if (prompt.includes("Reviewers found these problems")) return "Hello, revised.\nCHANGELOG:\n- Added the greeting";
+      if (prompt.includes("combining")) return "First draft.";
+      return undefined;
+    });
+    const output = await synthesize(
+      provider,
+      synthesizeSchema.parse({ models: ["a", "b"], prompt: "Hi?", synthesizer_model: "s", refine_rounds: 3 })
+    );
+
+    assert.match(output, /^Hello, revised\.$/m);
+    assert.match(output, /1 revision\(s\), approved by every critic in round 2/);
+    assert.match(output, /^- Added the greeting$/m);
+    assert.match(output, /\| s \(synthesizer\) \| \d+ms \| 10 \| \$1\.00 \|/);
+    // Round 1: two critiques and a revision; round 2: two critiques
+    assert.match(output, /\| refinement \(2 rounds\) \| \d+ms \| 50 \| \$5\.00 \|/);
+  });
+});
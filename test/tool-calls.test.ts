@@ -0,0 +1,127 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { parseToolArguments, toolConversation, ToolTurnError } from "../src/utils/tool-calls.js";
+import { OpenAICompatibleProvider } from "../src/providers/openai-compatible.js";
+import { MultiProvider } from "../src/providers/multi-provider.js";
+import { Provider, ToolCall } from "../src/providers/provider.js";
+import { readBody, startServer, useTempConfig } from "./helpers.js";
+
+const config = useTempConfig({ circuit_breaker: { persist: false } });
+after(() => config.remove());
+
+const weather = { name: "get_weather", parameters: { type: "object", properties: { city: { type: "string" } } } };
+const call: ToolCall = { id: "call_1", name: "get_weather", arguments: { city: "Paris" } };
+
+describe("toolConversation", () => {
+  it("builds the user → calls → results history", () => {
+    assert.equal(toolConversation("Weather?", undefined, undefined), "Weather?");
+    assert.deepEqual(toolConversation("Weather?", [call], [{ tool_call_id: "call_1", content: "18C" }]), [
+      { role: "user", content: "Weather?" },
+      { role: "assistant", content: "", tool_calls: [call] },
+      { role: "tool", content: "18C", tool_call_id: "call_1" },
+    ]);
+  });
+
+  it("needs exactly one result per call", () => {
+    assert.throws(() => toolConversation("Weather?", [call], undefined), ToolTurnError);
+    assert.throws(() => toolConversation("Weather?", [call], [{ tool_call_id: "call_2", content: "" }]), /unknown call\(s\): call_2/);
+    assert.throws(
+      () => toolConversation("Weather?", [call, { ...call, id: "call_2" }], [{ tool_call_id: "call_1", content: "" }]),
+      /no tool_results for call\(s\): call_2/
+    );
+    const twice = [
+      { tool_call_id: "call_1", content: "" },
+      { tool_call_id: "call_1", content: "" },
+    ];
+    assert.throws(
+      () => toolConversation("Weather?", [call], twice),
+      /more than one result for call\(s\): call_1/
+    );
+  });
+});
+
+describe("parseToolArguments", () => {
+  it("takes JSON strings and objects, and keeps what doesn't parse", () => {
+    assert.deepEqual(parseToolArguments('{"city": "Paris"}'), { city: "Paris" });
+    assert.deepEqual(parseToolArguments({ city: "Paris" }), { city: "Paris" });
+    assert.deepEqual(parseToolArguments(""), {});
+    assert.equal(parseToolArguments("{broken"), "{broken");
+  });
+});
+
+describe("tool passthrough", () => {
+  let server: Server;
+  let provider: OpenAICompatibleProvider;
+  const bodies: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    let url: string;
+    ({ server, url } = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      bodies.push(body);
+      if (body.stream) {
+        // The call arrives in pieces: id and name first, then the arguments
+        const pieces = [
+          { index: 0, id: "call_1", function: { name: "get_weather", arguments: '{"ci' } },
+          { index: 0, function: { arguments: 'ty": "Paris"}' } },
+        ];
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const piece of pieces) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [piece] } }] })}\n\n`);
+        }
+        res.end(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: "tool_calls" }] })}\n\ndata: [DONE]\n\n`);
+      } else {
+        const message = {
+          content: null,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city": "Paris"}' } }],
+        };
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ choices: [{ message, finish_reason: "tool_calls" }] }));
+      }
+    }));
+    provider = new OpenAICompatibleProvider({ name: "test", baseUrl: url });
+  });
+
+  after(() => server.close());
+
+  it("sends tools and returns the calls as data", async () => {
+    const response = await provider.query("gpt-test", "Weather?", { tools: [weather], tool_choice: { name: "get_weather" } });
+
+    assert.deepEqual(response.tool_calls, [call]);
+    assert.equal(response.finish_reason, "tool_calls");
+    assert.deepEqual(bodies[bodies.length - 1].tools, [{ type: "function", function: weather }]);
+    assert.deepEqual(bodies[bodies.length - 1].tool_choice, { type: "function", function: { name: "get_weather" } });
+  });
+
+  it("assembles streamed calls from their pieces", async () => {
+    const response = await provider.query("gpt-test", "Weather?", { tools: [weather], stream: true });
+    assert.deepEqual(response.tool_calls, [call]);
+  });
+
+  it("sends calls and results back in the wire format", async () => {
+    await provider.query("gpt-test", toolConversation("Weather?", [call], [{ tool_call_id: "call_1", content: "18C" }]), {
+      tools: [weather],
+    });
+    assert.deepEqual((bodies[bodies.length - 1].messages as unknown[]).slice(1), [
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "18C" },
+    ]);
+  });
+
+  it("is refused by backends that would drop the tools", async () => {
+    const multi = new MultiProvider();
+    const textOnly: Provider = {
+      name: "TextOnly",
+      healthCheck: async () => true,
+      listModels: async () => [],
+      query: async (model: string) => ({ model, content: "", latency_ms: 1 }),
+    };
+    multi.register("plain", textOnly);
+    await assert.rejects(multi.query("plain/m", "Weather?", { tools: [weather] }), /doesn't forward tool calls/);
+  });
+});